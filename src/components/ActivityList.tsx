@@ -0,0 +1,98 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { useActivity } from "@/hooks/use-activity";
+import { useConnectedAccounts } from "@/hooks/use-wallet";
+import { getChainAdapter } from "@/utils/chains";
+import { Activity } from "@/types/activity";
+
+const directionLabels: Record<Activity["direction"], string> = {
+  in: "Received",
+  out: "Sent",
+  self: "Self transfer",
+};
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const ActivityList: React.FC = () => {
+  const { activities, isLoading, refresh } = useActivity();
+  const notices = useConnectedAccounts().flatMap(({ chain }) => {
+    const adapter = getChainAdapter(chain);
+    return adapter?.getActivityNotice
+      ? [{ chain, text: `${adapter.displayName}: ${adapter.getActivityNotice()}` }]
+      : [];
+  });
+
+  return (
+    <section>
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-2xl font-semibold text-indigo-200">Recent Activity</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={refresh}
+          disabled={isLoading}
+          className="border-zinc-700 text-zinc-300"
+        >
+          {isLoading ? "Loading..." : "Refresh"}
+        </Button>
+      </div>
+
+      {notices.map((notice) => (
+        <p key={notice.chain} className="mb-3 text-xs text-zinc-500">
+          {notice.text}
+        </p>
+      ))}
+
+      {activities.length > 0 ? (
+        <ul className="divide-y divide-zinc-800 rounded-xl bg-zinc-900/70 ring-1 ring-zinc-800">
+          {activities.map((activity) => {
+            const explorerUrl = getChainAdapter(activity.chain)?.explorerUrl(
+              "tx",
+              activity.hash,
+              activity.network
+            );
+
+            return (
+              <li key={activity.id} className="flex items-center justify-between px-6 py-3">
+                <div>
+                  <div className="font-medium text-zinc-100">
+                    {directionLabels[activity.direction]}{" "}
+                    <span className={activity.direction === "in" ? "text-emerald-400" : "text-zinc-50"}>
+                      {activity.direction === "in" ? "+" : "-"}
+                      {activity.amount} {activity.token.symbol}
+                    </span>
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {activity.counterparty &&
+                      `${activity.direction === "in" ? "from" : "to"} ${shorten(activity.counterparty)} · `}
+                    {new Date(activity.timestamp).toLocaleString()}
+                    {activity.fee && ` · fee ${activity.fee}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 text-xs">
+                  {activity.status === "failed" && <span className="text-red-400">Failed</span>}
+                  {explorerUrl && (
+                    <a
+                      href={explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-indigo-300 hover:underline"
+                    >
+                      View
+                    </a>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className="rounded-xl bg-zinc-900/70 p-6 text-center text-sm text-zinc-500">
+          {isLoading ? "Loading activity..." : "No recent activity"}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ActivityList;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { toast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
+import { getChainAdapter } from "@/utils/chains";
+import { getActiveNetwork } from "@/utils/chains/networks";
+import { addCustomToken, getCustomTokens, removeCustomToken } from "@/utils/chains/customTokens";
+
+interface AddTokenFormProps {
+  chain: string;
+}
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const AddTokenForm: React.FC<AddTokenFormProps> = ({ chain }) => {
+  const { isConnected, tokens, isLoadingBalances, refreshBalances } = useWallet(chain);
+  const [contractAddress, setContractAddress] = useState("");
+  const [addedAddress, setAddedAddress] = useState<string | null>(null);
+
+  // Zero balances are not listed, so say why a token that was just added does not show up.
+  useEffect(() => {
+    if (!addedAddress || isLoadingBalances) return;
+    setAddedAddress(null);
+
+    const isListed = tokens.some(
+      (token) => token.address.toLowerCase() === addedAddress.toLowerCase()
+    );
+    if (!isListed) {
+      toast({
+        title: "Token Added",
+        description: `${shorten(addedAddress)} has no balance on this account, so it stays hidden until it does.`,
+      });
+    }
+  }, [addedAddress, isLoadingBalances, tokens]);
+
+  if (!isConnected) return null;
+
+  const network = getActiveNetwork(chain);
+  const customTokens = getCustomTokens(chain, network.id);
+
+  const handleAddToken = async () => {
+    const address = contractAddress.trim();
+    if (!getChainAdapter(chain)?.validateAddress(address).valid) {
+      toast({
+        title: "Invalid Address",
+        description: "Enter a valid token contract address.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    addCustomToken(chain, network.id, address);
+    setContractAddress("");
+    setAddedAddress(address);
+    await refreshBalances();
+  };
+
+  const handleRemoveToken = async (address: string) => {
+    removeCustomToken(chain, network.id, address);
+    await refreshBalances();
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex space-x-2">
+        <Input
+          value={contractAddress}
+          onChange={(e) => setContractAddress(e.target.value)}
+          placeholder="Add token contract (0x…)"
+          className="h-8 bg-zinc-900/60 border-zinc-700 text-xs text-zinc-300"
+        />
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={handleAddToken}
+          className="h-8 text-xs"
+        >
+          Add
+        </Button>
+      </div>
+      {customTokens.length > 0 && (
+        <ul className="space-y-1 text-xs text-zinc-500">
+          {customTokens.map((address) => (
+            <li key={address} className="flex items-center justify-between">
+              <span title={address}>{shorten(address)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemoveToken(address)}
+                className="h-6 px-2 text-zinc-400"
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AddTokenForm;
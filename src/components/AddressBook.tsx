@@ -0,0 +1,113 @@
+import React, { useRef } from "react";
+import { Button } from "./ui/button";
+import { toast } from "@/hooks/use-toast";
+import { useContacts } from "@/hooks/use-contacts";
+import { getChainAdapter } from "@/utils/chains";
+import { exportContacts, importContacts, removeContact } from "@/utils/contacts";
+
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const AddressBook: React.FC = () => {
+  const contacts = useContacts();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([exportContacts()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "contacts.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const { imported, conflicts } = importContacts(await file.text());
+      toast({
+        title: "Contacts Imported",
+        description:
+          `Imported ${imported} contact${imported === 1 ? "" : "s"} from ${file.name}.` +
+          (conflicts
+            ? ` Skipped ${conflicts} address${conflicts === 1 ? "" : "es"} that differ from ones already saved.`
+            : ""),
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold text-indigo-200">Contacts</h2>
+        <div className="flex gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInput.current?.click()}
+            className="border-zinc-600 text-zinc-300"
+          >
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={!contacts.length}
+            className="border-zinc-600 text-zinc-300"
+          >
+            Export
+          </Button>
+        </div>
+      </div>
+      {contacts.length ? (
+        <ul className="divide-y divide-zinc-800 rounded-xl bg-zinc-900/70 ring-1 ring-zinc-800">
+          {contacts.map((contact) => (
+            <li key={contact.id} className="flex items-center justify-between px-6 py-3">
+              <div>
+                <div className="font-medium text-zinc-100">{contact.label}</div>
+                <div className="flex flex-wrap gap-x-3 text-xs text-zinc-500">
+                  {Object.entries(contact.addresses).map(([chain, address]) => (
+                    <span key={chain} title={address}>
+                      {getChainAdapter(chain)?.displayName ?? chain}: {shorten(address)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeContact(contact.id)}
+                className="h-7 px-2 text-zinc-400"
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-zinc-500">
+          No contacts yet. You can save recipients after sending, or import a contacts file.
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default AddressBook;
@@ -0,0 +1,65 @@
+import React, { useState } from "react";
+import { Button } from "./ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "./ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { useContacts } from "@/hooks/use-contacts";
+import { getContactsForChain } from "@/utils/contacts";
+
+interface ContactPickerProps {
+  chain: string;
+  onSelect: (address: string, label: string) => void;
+}
+
+const ContactPicker: React.FC<ContactPickerProps> = ({ chain, onSelect }) => {
+  const [open, setOpen] = useState(false);
+  const contacts = getContactsForChain(useContacts(), chain);
+
+  if (!contacts.length) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs text-indigo-300">
+          Contacts
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <Command>
+          <CommandInput placeholder="Search by label…" />
+          <CommandList>
+            <CommandEmpty>No matching contacts.</CommandEmpty>
+            <CommandGroup>
+              {contacts.map((contact) => {
+                const address = contact.addresses[chain];
+                return (
+                  <CommandItem
+                    key={contact.id}
+                    value={contact.label}
+                    onSelect={() => {
+                      onSelect(address, contact.label);
+                      setOpen(false);
+                    }}
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium">{contact.label}</div>
+                      <div className="truncate font-mono text-xs text-muted-foreground">{address}</div>
+                    </div>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ContactPicker;
@@ -0,0 +1,46 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { NetworkProfile } from "@/types/network";
+import { useNetworkProfile } from "@/hooks/use-network-profile";
+import { getAvailableProfiles } from "@/utils/chains/networks";
+
+const profileLabels: Record<NetworkProfile, string> = {
+  mainnet: "Mainnet",
+  testnet: "Testnet",
+  devnet: "Devnet",
+  local: "Local",
+};
+
+interface NetworkSelectorProps {
+  chain: string;
+}
+
+const NetworkSelector: React.FC<NetworkSelectorProps> = ({ chain }) => {
+  const [profile, setProfile] = useNetworkProfile(chain);
+  const profiles = getAvailableProfiles(chain);
+
+  if (profiles.length < 2) return null;
+
+  return (
+    <Select value={profile} onValueChange={(value) => setProfile(value as NetworkProfile)}>
+      <SelectTrigger className="mt-2 h-8 bg-zinc-900/60 border-zinc-700 text-xs text-zinc-300">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {profiles.map((option) => (
+          <SelectItem key={option} value={option} className="text-xs">
+            {profileLabels[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default NetworkSelector;
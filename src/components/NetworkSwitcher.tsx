@@ -0,0 +1,38 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useActiveNetwork } from "@/hooks/use-network-profile";
+import { getProfileNetworks } from "@/utils/chains/networks";
+
+interface NetworkSwitcherProps {
+  chain: string;
+}
+
+const NetworkSwitcher: React.FC<NetworkSwitcherProps> = ({ chain }) => {
+  const [network, setNetwork] = useActiveNetwork(chain);
+  const networks = getProfileNetworks(chain, network.profile);
+
+  if (networks.length < 2) return null;
+
+  return (
+    <Select value={network.id} onValueChange={setNetwork}>
+      <SelectTrigger className="mt-2 h-8 bg-zinc-900/60 border-zinc-700 text-xs text-zinc-300">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {networks.map((option) => (
+          <SelectItem key={option.id} value={option.id} className="text-xs">
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default NetworkSwitcher;
@@ -0,0 +1,73 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { usePendingTransactions } from "@/hooks/use-pending-transactions";
+import { getChainAdapter } from "@/utils/chains";
+import { dismissTransaction, isDismissable } from "@/utils/pendingTransactions";
+import { TransactionStatus } from "@/types/transaction";
+
+const statusStyles: Record<TransactionStatus, { label: string; className: string }> = {
+  submitted: { label: "Submitted", className: "text-amber-300" },
+  dropped: { label: "Dropped?", className: "text-orange-400" },
+  confirmed: { label: "Confirmed", className: "text-sky-300" },
+  finalized: { label: "Finalized", className: "text-emerald-400" },
+  failed: { label: "Failed", className: "text-red-400" },
+};
+
+const PendingTransactions: React.FC = () => {
+  const transactions = usePendingTransactions();
+
+  if (!transactions.length) return null;
+
+  return (
+    <section>
+      <h2 className="text-2xl font-semibold text-indigo-200 mb-4">Pending Transfers</h2>
+      <ul className="divide-y divide-zinc-800 rounded-xl bg-zinc-900/70 ring-1 ring-zinc-800">
+        {transactions.map((transaction) => {
+          const status = statusStyles[transaction.status];
+          const explorerUrl = getChainAdapter(transaction.chain)?.explorerUrl(
+            "tx",
+            transaction.hash,
+            transaction.network
+          );
+
+          return (
+            <li key={transaction.hash} className="flex items-center justify-between px-6 py-3">
+              <div>
+                <div className="font-medium text-zinc-100">{transaction.summary}</div>
+                <div className="text-xs text-zinc-500">
+                  {new Date(transaction.submittedAt).toLocaleString()}
+                  {transaction.error && ` · ${transaction.error}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 text-xs">
+                <span className={status.className}>{status.label}</span>
+                {explorerUrl && (
+                  <a
+                    href={explorerUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-indigo-300 hover:underline"
+                  >
+                    View
+                  </a>
+                )}
+                {isDismissable(transaction) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => dismissTransaction(transaction.hash)}
+                    className="h-7 px-2 text-zinc-400"
+                  >
+                    Dismiss
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default PendingTransactions;
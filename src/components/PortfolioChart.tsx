@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import BigNumber from "bignumber.js";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "./ui/chart";
+import { Button } from "./ui/button";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { usePortfolioHistory } from "@/hooks/use-portfolio-history";
+import { buildPortfolioSeries, clearSnapshots } from "@/utils/portfolio/history";
+import { getChainAdapter } from "@/utils/chains";
+import { formatUSD } from "@/utils/prices";
+
+type Range = "24h" | "7d" | "30d" | "all";
+
+const HOUR_MS = 60 * 60_000;
+
+const RANGES: Record<Range, number | null> = {
+  "24h": 24 * HOUR_MS,
+  "7d": 7 * 24 * HOUR_MS,
+  "30d": 30 * 24 * HOUR_MS,
+  all: null,
+};
+
+const chainColors: Record<string, string> = {
+  mvm: "#6366f1",
+  evm: "#f97316",
+  svm: "#a855f7",
+};
+
+const formatTime = (timestamp: number, range: Range) =>
+  new Date(timestamp).toLocaleString(
+    undefined,
+    range === "24h" ? { hour: "2-digit", minute: "2-digit" } : { month: "short", day: "numeric" }
+  );
+
+const PortfolioChart: React.FC = () => {
+  const snapshots = usePortfolioHistory();
+  const [range, setRange] = useState<Range>("7d");
+  const [showBreakdown, setShowBreakdown] = useState(false);
+
+  const points = useMemo(() => {
+    const span = RANGES[range];
+    return buildPortfolioSeries(snapshots, span === null ? 0 : Date.now() - span);
+  }, [snapshots, range]);
+
+  const chains = useMemo(
+    () => Array.from(new Set(points.flatMap((point) => Object.keys(point.chains)))),
+    [points]
+  );
+
+  const config = useMemo<ChartConfig>(
+    () => ({
+      total: { label: "Total", color: "#818cf8" },
+      ...Object.fromEntries(
+        chains.map((chain) => [
+          chain,
+          {
+            label: getChainAdapter(chain)?.displayName ?? chain,
+            color: chainColors[chain] ?? "#a1a1aa",
+          },
+        ])
+      ),
+    }),
+    [chains]
+  );
+
+  const data = useMemo(
+    () => points.map((point) => ({ timestamp: point.timestamp, total: point.total, ...point.chains })),
+    [points]
+  );
+
+  return (
+    <div className="mb-4 rounded-xl bg-zinc-900/70 p-4 ring-1 ring-zinc-800">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <ToggleGroup
+          type="single"
+          value={range}
+          onValueChange={(value) => value && setRange(value as Range)}
+          size="sm"
+        >
+          {(Object.keys(RANGES) as Range[]).map((option) => (
+            <ToggleGroupItem key={option} value={option} className="text-xs text-zinc-300">
+              {option}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="portfolio-breakdown"
+            checked={showBreakdown}
+            onCheckedChange={setShowBreakdown}
+          />
+          <Label htmlFor="portfolio-breakdown" className="text-xs text-zinc-400">
+            Per chain
+          </Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clearSnapshots}
+            disabled={!snapshots.length}
+            className="h-7 px-2 text-xs text-zinc-400"
+          >
+            Clear history
+          </Button>
+        </div>
+      </div>
+
+      {data.length > 1 ? (
+        <ChartContainer config={config} className="h-56 w-full">
+          <AreaChart data={data}>
+            <CartesianGrid vertical={false} strokeOpacity={0.1} />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => formatTime(value, range)}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              tickFormatter={(value: number) => formatUSD(new BigNumber(value))}
+              tickLine={false}
+              axisLine={false}
+              width={80}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) =>
+                    new Date(payload[0]?.payload.timestamp).toLocaleString()
+                  }
+                  formatter={(value, name) => (
+                    <span>
+                      {config[name as string]?.label ?? name}:{" "}
+                      {formatUSD(new BigNumber(value as number))}
+                    </span>
+                  )}
+                />
+              }
+            />
+            {showBreakdown ? (
+              chains.map((chain) => (
+                <Area
+                  key={chain}
+                  dataKey={chain}
+                  type="stepAfter"
+                  stackId="chains"
+                  stroke={`var(--color-${chain})`}
+                  fill={`var(--color-${chain})`}
+                  fillOpacity={0.3}
+                />
+              ))
+            ) : (
+              <Area
+                dataKey="total"
+                type="stepAfter"
+                stroke="var(--color-total)"
+                fill="var(--color-total)"
+                fillOpacity={0.3}
+              />
+            )}
+            {showBreakdown && <ChartLegend content={<ChartLegendContent />} />}
+          </AreaChart>
+        </ChartContainer>
+      ) : (
+        <div className="flex h-56 items-center justify-center text-sm text-zinc-500">
+          Not enough history yet for this range.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioChart;
@@ -0,0 +1,40 @@
+import React, { useMemo } from "react";
+import { Token } from "@/types/wallet";
+import { getChainAdapter } from "@/utils/chains";
+import { formatUSD, getPortfolioValue } from "@/utils/prices";
+
+interface PortfolioSummaryProps {
+  tokens: Token[];
+}
+
+const PortfolioSummary: React.FC<PortfolioSummaryProps> = ({ tokens }) => {
+  const chainTotals = useMemo(() => {
+    const byChain = new Map<string, Token[]>();
+    tokens.forEach((token) => byChain.set(token.chain, [...(byChain.get(token.chain) ?? []), token]));
+    return Array.from(byChain.entries()).map(([chain, chainTokens]) => ({
+      chain,
+      value: getPortfolioValue(chainTokens),
+    }));
+  }, [tokens]);
+
+  return (
+    <div className="mb-4 flex flex-wrap items-end gap-6 rounded-xl bg-zinc-900/70 p-4 ring-1 ring-zinc-800">
+      <div>
+        <div className="text-xs uppercase tracking-wide text-zinc-500">Total value</div>
+        <div className="text-3xl font-bold text-zinc-50">
+          {formatUSD(getPortfolioValue(tokens))}
+        </div>
+      </div>
+      {chainTotals.map(({ chain, value }) => (
+        <div key={chain}>
+          <div className="text-xs uppercase tracking-wide text-zinc-500">
+            {getChainAdapter(chain)?.displayName || chain}
+          </div>
+          <div className="text-lg font-semibold text-zinc-200">{formatUSD(value)}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PortfolioSummary;
@@ -0,0 +1,430 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Token, TransferParams } from "@/types/wallet";
+import { WalletErrorCode } from "@/types/errors";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { Input } from "./ui/input";
+import { ToastAction } from "./ui/toast";
+import { Label } from "./ui/label";
+import TransferReview from "./TransferReview";
+import TransferSimulationSummary from "./TransferSimulationSummary";
+import ContactPicker from "./ContactPicker";
+import { toast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/use-wallet";
+import { useFeeEstimate } from "@/hooks/use-fee-estimate";
+import { useTransferSimulation } from "@/hooks/use-transfer-simulation";
+import { useResolvedName } from "@/hooks/use-names";
+import { useContacts } from "@/hooks/use-contacts";
+import { getChainAdapter } from "@/utils/chains";
+import { getMaxTransferAmount, transferTokens } from "@/utils/wallet";
+import { findContact, saveContact } from "@/utils/contacts";
+import {
+  checkAmount,
+  formatAmount,
+  formatDisplayAmount,
+  isPositiveAmount,
+  parseAmount,
+} from "@/utils/amount";
+
+interface TransferDialogProps {
+  token: Token | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// "contact" offers to save an unknown recipient once the transfer is submitted.
+type Step = "form" | "review" | "contact";
+
+const buildTransferSchema = (token: Token | null) =>
+  z.object({
+    toAddress: z.string().superRefine((value, ctx) => {
+      const adapter = token ? getChainAdapter(token.chain) : undefined;
+      // Names are checked by resolving them, see `useResolvedName`.
+      if (adapter?.names?.isName(value)) return;
+      const result = adapter?.validateAddress(value);
+      if (result && !result.valid) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error ?? "Invalid address." });
+      }
+    }),
+    amount: z
+      .string()
+      .trim()
+      .superRefine((value, ctx) => {
+        if (!token) return;
+        const message =
+          checkAmount(value, token.decimals) ??
+          (!isPositiveAmount(value, token.decimals)
+            ? "Enter an amount above zero."
+            : parseAmount(value, token.decimals) > BigInt(token.rawBalance)
+              ? `Exceeds your balance of ${formatDisplayAmount(token.rawBalance, token.decimals)} ${token.symbol}.`
+              : null);
+        if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }),
+  });
+
+type TransferFormValues = z.infer<ReturnType<typeof buildTransferSchema>>;
+
+const TRANSFER_ERROR_TITLES: Record<WalletErrorCode, string> = {
+  user_rejected: "Transfer Cancelled",
+  insufficient_funds: "Insufficient Balance",
+  network_mismatch: "Network Error",
+  rpc_unavailable: "Network Unavailable",
+  wallet_unavailable: "Wallet Not Found",
+  transaction_failed: "Transfer Would Fail",
+  unknown: "Transfer Failed",
+};
+
+const inputClassName =
+  "mt-1 bg-zinc-800 border-zinc-600 focus:ring-indigo-500 focus:border-indigo-600 text-zinc-100";
+
+const TransferDialog: React.FC<TransferDialogProps> = ({ token, open, onOpenChange }) => {
+  const schema = useMemo(() => buildTransferSchema(token), [token]);
+  const form = useForm<TransferFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { toAddress: "", amount: "" },
+  });
+  const [toAddress, amount] = form.watch(["toAddress", "amount"]);
+  const [step, setStep] = useState<Step>("form");
+  const [recipientName, setRecipientName] = useState<string | null>(null);
+  const [contactLabel, setContactLabel] = useState("");
+  const contacts = useContacts();
+  const recipientContact = useMemo(
+    () => (token && step === "review" ? findContact(token.chain, toAddress, contacts) : undefined),
+    [token, step, toAddress, contacts]
+  );
+  const resolution = useResolvedName(step === "form" ? token?.chain : undefined, toAddress);
+  // Checked on the address funds go to, which for a name is the address it resolved to.
+  const recipientAddress = resolution.isName ? resolution.address : toAddress;
+  const addressWarning = useMemo(() => {
+    const result =
+      token && recipientAddress
+        ? getChainAdapter(token.chain)?.validateAddress(recipientAddress)
+        : undefined;
+    return result?.valid ? result.warning : undefined;
+  }, [token, recipientAddress]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isFillingMax, setIsFillingMax] = useState(false);
+  const { address: from } = useWallet(token?.chain ?? "");
+  const { fee, isEstimating: isEstimatingFee, error: feeError } = useFeeEstimate(
+    open ? token : null,
+    toAddress,
+    amount
+  );
+  const {
+    simulation,
+    isSimulating,
+    error: simulationError,
+  } = useTransferSimulation(step === "review" ? token : null, toAddress, amount);
+  const wouldFail = simulation?.success === false;
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({ toAddress: "", amount: "" });
+    setRecipientName(null);
+    setStep("form");
+  }, [open, token, form]);
+
+  const handleReview = (values: TransferFormValues) => {
+    if (!token) return;
+
+    let recipient = values.toAddress.trim();
+    if (resolution.isName) {
+      if (!resolution.address) {
+        form.setError("toAddress", {
+          message: resolution.error ?? `Still resolving ${recipient}, try again in a moment.`,
+        });
+        return;
+      }
+      setRecipientName(recipient);
+      recipient = resolution.address;
+    } else {
+      setRecipientName(null);
+    }
+
+    // Review and send the canonical form, e.g. checksummed or zero-padded.
+    const validation = getChainAdapter(token.chain)?.validateAddress(recipient);
+    form.setValue("toAddress", validation?.address ?? recipient);
+    form.setValue("amount", values.amount.trim());
+    setStep("review");
+  };
+
+  const handleMax = async () => {
+    if (!token) return;
+
+    setIsFillingMax(true);
+    try {
+      const max = await getMaxTransferAmount(token, recipientAddress ?? "", from ?? "");
+      form.setValue("amount", formatAmount(max, token.decimals), { shouldValidate: true });
+    } catch (error) {
+      console.error("Error estimating network fee:", error);
+      toast({
+        title: "Fee Unavailable",
+        description: "Could not estimate the network fee, so Max cannot leave room for it.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsFillingMax(false);
+    }
+  };
+
+  const handleBack = () => {
+    // Show the name the user typed again rather than the address it resolved to.
+    if (recipientName) form.setValue("toAddress", recipientName);
+    setStep("form");
+  };
+
+  const handleSubmitTransfer = async () => {
+    if (!token) return;
+
+    const params: TransferParams = {
+      token,
+      toAddress,
+      amount,
+    };
+
+    setIsSubmitting(true);
+    const result = await transferTokens(params);
+    setIsSubmitting(false);
+
+    // Compared explicitly: without strictNullChecks, `!result.ok` does not narrow the union.
+    if (result.ok === false) {
+      toast({
+        title: TRANSFER_ERROR_TITLES[result.error.code],
+        description: result.error.message,
+        // Backing out in the wallet is a choice, not something that went wrong.
+        variant: result.error.code === "user_rejected" ? "default" : "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Transfer Submitted",
+      description: `${token.symbol} transfer is on its way. Track it under Pending Transfers.`,
+      action: result.explorerUrl ? (
+        <ToastAction altText="View in explorer" asChild>
+          <a href={result.explorerUrl} target="_blank" rel="noopener noreferrer">
+            View
+          </a>
+        </ToastAction>
+      ) : undefined,
+    });
+
+    if (findContact(token.chain, toAddress)) {
+      onOpenChange(false);
+    } else {
+      setContactLabel(recipientName ?? "");
+      setStep("contact");
+    }
+  };
+
+  const handleSaveContact = () => {
+    if (!token) return;
+
+    try {
+      saveContact(contactLabel, token.chain, toAddress);
+      toast({ title: "Contact Saved", description: `Saved ${contactLabel.trim()} to your contacts.` });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not save contact",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md dark:bg-zinc-900 dark:text-zinc-200 bg-zinc-900 border-zinc-700 rounded-2xl shadow-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            <span className="font-mono text-indigo-300">
+              {step === "review"
+                ? "Review transfer"
+                : step === "contact"
+                  ? "Save recipient"
+                  : `Send ${token?.symbol ?? ""}`}
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+        {step === "form" ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleReview)} className="space-y-4 mt-3">
+              <FormField
+                control={form.control}
+                name="toAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel className="text-zinc-400">Recipient Address</FormLabel>
+                      {token && (
+                        <ContactPicker
+                          chain={token.chain}
+                          onSelect={(address) =>
+                            form.setValue("toAddress", address, { shouldValidate: true })
+                          }
+                        />
+                      )}
+                    </div>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        className={inputClassName}
+                        placeholder="Address or name, e.g. alice.eth"
+                        autoFocus
+                      />
+                    </FormControl>
+                    {resolution.isResolving && <FormDescription>Resolving name…</FormDescription>}
+                    {resolution.address && (
+                      <FormDescription className="break-all text-green-400">
+                        Resolves to {resolution.address}
+                      </FormDescription>
+                    )}
+                    {resolution.error && (
+                      <FormDescription className="text-red-400">{resolution.error}</FormDescription>
+                    )}
+                    {addressWarning && (
+                      <FormDescription className="text-amber-400">{addressWarning}</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel className="text-zinc-400">Amount</FormLabel>
+                      {token && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={handleMax}
+                          disabled={isFillingMax}
+                          className="h-6 px-2 text-xs text-indigo-300"
+                        >
+                          Max {formatDisplayAmount(token.rawBalance, token.decimals)}
+                        </Button>
+                      )}
+                    </div>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        inputMode="decimal"
+                        autoComplete="off"
+                        className={inputClassName}
+                        placeholder={`Amount in ${token?.symbol || ""}`}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-indigo-500 via-fuchsia-600 to-orange-500 hover:opacity-90 text-white font-semibold rounded-lg shadow-xl py-2 transition"
+              >
+                Review
+              </Button>
+            </form>
+          </Form>
+        ) : step === "review" ? (
+          token && (
+            <div className="space-y-4 mt-3">
+              <TransferReview
+                token={token}
+                from={from}
+                toAddress={toAddress}
+                recipientName={recipientName ?? recipientContact?.label}
+                addressWarning={addressWarning}
+                amount={amount}
+                fee={fee}
+                isEstimatingFee={isEstimatingFee}
+                feeError={feeError}
+              />
+              <TransferSimulationSummary
+                simulation={simulation}
+                isSimulating={isSimulating}
+                error={simulationError}
+              />
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={handleBack}
+                  disabled={isSubmitting}
+                  className="flex-1 border-zinc-600 text-zinc-300"
+                >
+                  Back
+                </Button>
+                <Button
+                  onClick={handleSubmitTransfer}
+                  disabled={isSubmitting || isSimulating || wouldFail}
+                  className="flex-1 bg-gradient-to-r from-indigo-500 via-fuchsia-600 to-orange-500 hover:opacity-90 text-white font-semibold rounded-lg shadow-xl py-2 transition"
+                >
+                  {isSubmitting ? "Confirm in wallet…" : `Send ${token.symbol}`}
+                </Button>
+              </div>
+            </div>
+          )
+        ) : (
+          <div className="space-y-4 mt-3">
+            <p className="text-sm text-zinc-400">
+              Add <span className="font-mono text-zinc-200 break-all">{toAddress}</span> to your
+              contacts? Use an existing label to add this address to that contact.
+            </p>
+            <div>
+              <Label htmlFor="contact-label" className="text-zinc-400">Label</Label>
+              <Input
+                id="contact-label"
+                list="contact-labels"
+                className={inputClassName}
+                value={contactLabel}
+                onChange={(e) => setContactLabel(e.target.value)}
+                placeholder="e.g. Alice"
+                autoFocus
+              />
+              <datalist id="contact-labels">
+                {contacts.map((contact) => (
+                  <option key={contact.id} value={contact.label} />
+                ))}
+              </datalist>
+            </div>
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="flex-1 border-zinc-600 text-zinc-300"
+              >
+                Skip
+              </Button>
+              <Button
+                onClick={handleSaveContact}
+                disabled={!contactLabel.trim()}
+                className="flex-1 bg-gradient-to-r from-indigo-500 via-fuchsia-600 to-orange-500 hover:opacity-90 text-white font-semibold rounded-lg shadow-xl py-2 transition"
+              >
+                Save contact
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransferDialog;
@@ -0,0 +1,99 @@
+import React from "react";
+import BigNumber from "bignumber.js";
+import { FeeEstimate, Token } from "@/types/wallet";
+import { useAllTokens } from "@/hooks/use-wallet";
+import { getNetwork } from "@/utils/chains/networks";
+import { formatUSD } from "@/utils/prices";
+import { isFeeCurrency } from "@/utils/wallet";
+
+interface TransferReviewProps {
+  token: Token;
+  from: string | null;
+  toAddress: string;
+  // Name the recipient was entered as, when it was resolved through a name service.
+  recipientName?: string | null;
+  // Reason to double-check the recipient, from the chain's address validation.
+  addressWarning?: string;
+  amount: string;
+  fee: FeeEstimate | null;
+  isEstimatingFee: boolean;
+  feeError: string | null;
+}
+
+const ReviewRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 py-2 text-sm">
+    <span className="text-zinc-400">{label}</span>
+    <span className="text-right text-zinc-100 break-all">{children}</span>
+  </div>
+);
+
+const toUSD = (amount: string, price?: Token) =>
+  price?.priceUpdatedAt ? new BigNumber(amount).multipliedBy(price.priceUSD) : null;
+
+const TransferReview: React.FC<TransferReviewProps> = ({
+  token,
+  from,
+  toAddress,
+  recipientName,
+  addressWarning,
+  amount,
+  fee,
+  isEstimatingFee,
+  feeError,
+}) => {
+  const allTokens = useAllTokens();
+  const network = getNetwork(token.chain, token.network);
+  const nativeToken = allTokens.find(
+    (candidate) =>
+      candidate.chain === token.chain &&
+      candidate.network === token.network &&
+      isFeeCurrency(candidate)
+  );
+
+  const amountUSD = toUSD(amount, token);
+  const feeUSD = fee ? toUSD(fee.amount, nativeToken) : null;
+
+  // Fees are paid in the native currency, so they only add up with native transfers.
+  const total =
+    fee && isFeeCurrency(token)
+      ? `${new BigNumber(amount).plus(fee.amount).toFixed()} ${token.symbol}`
+      : fee
+        ? `${amount} ${token.symbol} + ${fee.amount} ${fee.symbol}`
+        : `${amount} ${token.symbol}`;
+  const totalUSD = amountUSD && (!fee || feeUSD) ? amountUSD.plus(feeUSD ?? 0) : null;
+
+  return (
+    <div className="divide-y divide-zinc-800 rounded-lg bg-zinc-800/60 px-4">
+      <ReviewRow label="Network">{network.name}</ReviewRow>
+      <ReviewRow label="From">{from ?? "—"}</ReviewRow>
+      <ReviewRow label="To">
+        {recipientName && <div className="font-semibold">{recipientName}</div>}
+        {recipientName ? <div className="text-xs text-zinc-500">{toAddress}</div> : toAddress}
+        {addressWarning && <div className="text-xs text-amber-400">{addressWarning}</div>}
+      </ReviewRow>
+      <ReviewRow label="Amount">
+        {amount} {token.symbol}
+        {amountUSD && <div className="text-xs text-zinc-500">{formatUSD(amountUSD)}</div>}
+      </ReviewRow>
+      <ReviewRow label="Network fee">
+        {isEstimatingFee ? (
+          "Estimating…"
+        ) : fee ? (
+          <>
+            {fee.amount} {fee.symbol}
+            {feeUSD && <div className="text-xs text-zinc-500">{formatUSD(feeUSD)}</div>}
+            {fee.description && <div className="text-xs text-zinc-500">{fee.description}</div>}
+          </>
+        ) : (
+          <span className="text-red-400">Unavailable{feeError ? `: ${feeError}` : ""}</span>
+        )}
+      </ReviewRow>
+      <ReviewRow label="Total">
+        <span className="font-semibold">{total}</span>
+        {totalUSD && <div className="text-xs text-zinc-500">{formatUSD(totalUSD)}</div>}
+      </ReviewRow>
+    </div>
+  );
+};
+
+export default TransferReview;
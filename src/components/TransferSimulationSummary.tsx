@@ -0,0 +1,65 @@
+import React from "react";
+import BigNumber from "bignumber.js";
+import { TransferSimulation } from "@/types/wallet";
+
+interface TransferSimulationSummaryProps {
+  simulation: TransferSimulation | null;
+  isSimulating: boolean;
+  error: string | null;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const TransferSimulationSummary: React.FC<TransferSimulationSummaryProps> = ({
+  simulation,
+  isSimulating,
+  error,
+}) => {
+  if (isSimulating) {
+    return <div className="rounded-lg bg-zinc-800/60 px-4 py-3 text-sm text-zinc-400">Simulating…</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg bg-zinc-800/60 px-4 py-3 text-sm text-zinc-400">
+        Simulation unavailable: {error}
+      </div>
+    );
+  }
+
+  if (!simulation) return null;
+
+  if (!simulation.success) {
+    return (
+      <div className="rounded-lg border border-red-900 bg-red-950/40 px-4 py-3 text-sm text-red-400">
+        <div className="font-semibold">This transfer would fail</div>
+        <div>{simulation.error?.message}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-zinc-800/60 px-4 py-3 text-sm">
+      <div className="flex justify-between text-zinc-400">
+        <span>Simulation</span>
+        <span>{simulation.gasUsed} gas units</span>
+      </div>
+      <ul className="mt-2 space-y-1">
+        {simulation.balanceChanges.map((change) => {
+          const isOutflow = new BigNumber(change.amount).isNegative();
+          return (
+            <li key={`${change.address}:${change.symbol}`} className="flex justify-between gap-4">
+              <span className="font-mono text-zinc-300">{shortenAddress(change.address)}</span>
+              <span className={isOutflow ? "text-red-400" : "text-green-400"}>
+                {isOutflow ? "" : "+"}
+                {change.amount} {change.symbol}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TransferSimulationSummary;
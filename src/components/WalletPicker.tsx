@@ -0,0 +1,46 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useWallet } from "@/hooks/use-wallet";
+import { useWalletOptions } from "@/hooks/use-wallet-options";
+
+interface WalletPickerProps {
+  chain: string;
+}
+
+const WalletPicker: React.FC<WalletPickerProps> = ({ chain }) => {
+  const { isConnected, isConnecting } = useWallet(chain);
+  const { wallets, selected, selectWallet } = useWalletOptions(chain);
+
+  if (wallets.length < 2) return null;
+
+  return (
+    <Select
+      value={selected?.id}
+      onValueChange={selectWallet}
+      // Switching wallets mid-session would leave the connected account behind.
+      disabled={isConnected || isConnecting}
+    >
+      <SelectTrigger className="mt-2 h-8 bg-zinc-900/60 border-zinc-700 text-xs text-zinc-300">
+        <SelectValue placeholder="Choose a wallet" />
+      </SelectTrigger>
+      <SelectContent>
+        {wallets.map((wallet) => (
+          <SelectItem key={wallet.id} value={wallet.id} className="text-xs">
+            <span className="flex items-center gap-2">
+              {wallet.icon && <img src={wallet.icon} alt="" className="h-4 w-4 rounded" />}
+              {wallet.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default WalletPicker;
@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import { Token } from "@/types/wallet";
+import { getChainAdapter, getChainAdapters, getWalletName } from "@/utils/chains";
+import { getActiveNetwork, subscribeToNetworkChanges } from "@/utils/chains/networks";
+import { withPrices } from "@/utils/prices";
+import { recordSnapshot } from "@/utils/portfolio/history";
+import { watchTransactions } from "@/utils/pendingTransactions";
+import { WalletContext, WalletContextValue, WalletState } from "./wallet-context";
+
+const createInitialState = (chain: string): WalletState => ({
+  chain,
+  address: null,
+  isInstalled: getChainAdapter(chain)?.isInstalled() ?? false,
+  isConnected: false,
+  isConnecting: false,
+  isLoadingBalances: false,
+  tokens: [],
+});
+
+const createErrorToken = (chain: string): Token => ({
+  id: "error",
+  symbol: "ERR",
+  name: "Error fetching tokens",
+  balance: "0",
+  rawBalance: "0",
+  decimals: getActiveNetwork(chain).nativeCurrency.decimals,
+  address: "",
+  chain,
+  network: getActiveNetwork(chain).id,
+  logoURI: "",
+  priceUSD: "0",
+});
+
+const WalletProvider = ({ children }: { children: React.ReactNode }) => {
+  const [wallets, setWallets] = useState<Record<string, WalletState>>(() =>
+    Object.fromEntries(getChainAdapters().map((adapter) => [adapter.id, createInitialState(adapter.id)]))
+  );
+  const addresses = useRef<Record<string, string | null>>({});
+  const balanceRequests = useRef<Record<string, number>>({});
+
+  const updateWallet = useCallback((chain: string, patch: Partial<WalletState>) => {
+    setWallets((prev) => ({
+      ...prev,
+      [chain]: { ...(prev[chain] ?? createInitialState(chain)), ...patch },
+    }));
+  }, []);
+
+  const refreshBalances = useCallback(
+    async (chain: string) => {
+      const adapter = getChainAdapter(chain);
+      const address = addresses.current[chain];
+      if (!adapter || !address) return;
+
+      const requestId = (balanceRequests.current[chain] ?? 0) + 1;
+      balanceRequests.current[chain] = requestId;
+      updateWallet(chain, { isLoadingBalances: true });
+
+      let tokens: Token[];
+      let failed = false;
+      try {
+        tokens = await adapter.getBalances(address);
+      } catch (error) {
+        console.error(`Error fetching ${adapter.displayName} token balances:`, error);
+        tokens = [createErrorToken(chain)];
+        failed = true;
+      }
+
+      // A newer refresh, account switch or disconnect superseded this request.
+      if (balanceRequests.current[chain] !== requestId) return;
+      updateWallet(chain, { tokens, isLoadingBalances: false });
+
+      // Prices arrive after balances so a slow oracle never holds up the table.
+      const pricedTokens = await withPrices(tokens);
+      if (balanceRequests.current[chain] !== requestId) return;
+      updateWallet(chain, { tokens: pricedTokens });
+      if (!failed) recordSnapshot(chain, pricedTokens);
+    },
+    [updateWallet]
+  );
+
+  const setAccount = useCallback(
+    (chain: string, address: string | null) => {
+      // The old account's holdings no longer count towards the portfolio.
+      const previous = addresses.current[chain];
+      if (previous && previous !== address) recordSnapshot(chain, []);
+
+      addresses.current[chain] = address;
+      balanceRequests.current[chain] = (balanceRequests.current[chain] ?? 0) + 1;
+      updateWallet(chain, {
+        address,
+        isConnected: !!address,
+        isLoadingBalances: false,
+        tokens: [],
+      });
+
+      if (address) refreshBalances(chain);
+    },
+    [updateWallet, refreshBalances]
+  );
+
+  const handleDisconnected = useCallback(
+    (chain: string) => {
+      if (!addresses.current[chain]) return;
+      setAccount(chain, null);
+
+      const adapter = getChainAdapter(chain);
+      toast({
+        title: "Disconnected",
+        description: `${adapter ? getWalletName(adapter) : chain} disconnected`,
+      });
+    },
+    [setAccount]
+  );
+
+  const connect = useCallback(
+    async (chain: string) => {
+      const adapter = getChainAdapter(chain);
+      if (!adapter) return;
+
+      updateWallet(chain, { isConnecting: true });
+      try {
+        const address = await adapter.connect();
+        setAccount(chain, address);
+
+        toast({
+          title: "Connected",
+          description: `${getWalletName(adapter)} connected successfully!`,
+        });
+      } catch (error) {
+        console.error(`Error connecting to ${getWalletName(adapter)}:`, error);
+        toast({
+          title: "Connection Failed",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        });
+      } finally {
+        updateWallet(chain, { isConnecting: false });
+      }
+    },
+    [updateWallet, setAccount]
+  );
+
+  const disconnect = useCallback(
+    async (chain: string) => {
+      const adapter = getChainAdapter(chain);
+      try {
+        await adapter?.disconnect();
+      } catch (error) {
+        console.error(`Error disconnecting from ${adapter?.walletName}:`, error);
+      } finally {
+        handleDisconnected(chain);
+      }
+    },
+    [handleDisconnected]
+  );
+
+  useEffect(() => {
+    // Every adapter is watched, since wallets can announce themselves after the page loads.
+    const unsubscribers = getChainAdapters().flatMap((adapter) => {
+      const restoreConnection = () => {
+        if (!adapter.isInstalled() || addresses.current[adapter.id]) return;
+        adapter
+          .getConnectedAccount()
+          .then((address) => {
+            if (address && !addresses.current[adapter.id]) setAccount(adapter.id, address);
+          })
+          .catch((error) => {
+            console.error(`${adapter.walletName} connection check failed:`, error);
+          });
+      };
+
+      const handleWalletsChange = () => {
+        updateWallet(adapter.id, { isInstalled: adapter.isInstalled() });
+        restoreConnection();
+      };
+      handleWalletsChange();
+
+      return [
+        adapter.wallets?.subscribe(handleWalletsChange) ?? (() => {}),
+        adapter.subscribe({
+          onAccountChange: (address) => {
+            if (address) setAccount(adapter.id, address);
+            else handleDisconnected(adapter.id);
+          },
+          onNetworkChange: () => refreshBalances(adapter.id),
+        }),
+      ];
+    });
+
+    const unsubscribeNetworks = subscribeToNetworkChanges((chain) => refreshBalances(chain));
+
+    const stopWatching = watchTransactions((transaction) => {
+      refreshBalances(transaction.chain);
+      toast({
+        title: transaction.status === "failed" ? "Transfer Failed" : "Transfer Confirmed",
+        description: transaction.error ?? transaction.summary,
+        variant: transaction.status === "failed" ? "destructive" : "default",
+      });
+    });
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      unsubscribeNetworks();
+      stopWatching();
+    };
+  }, [updateWallet, setAccount, handleDisconnected, refreshBalances]);
+
+  const value = useMemo<WalletContextValue>(
+    () => ({ wallets, connect, disconnect, refreshBalances }),
+    [wallets, connect, disconnect, refreshBalances]
+  );
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+};
+
+export default WalletProvider;
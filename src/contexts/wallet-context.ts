@@ -0,0 +1,21 @@
+import { createContext } from "react";
+import { Token } from "@/types/wallet";
+
+export interface WalletState {
+  chain: string;
+  address: string | null;
+  isInstalled: boolean;
+  isConnected: boolean;
+  isConnecting: boolean;
+  isLoadingBalances: boolean;
+  tokens: Token[];
+}
+
+export interface WalletContextValue {
+  wallets: Record<string, WalletState>;
+  connect: (chain: string) => Promise<void>;
+  disconnect: (chain: string) => Promise<void>;
+  refreshBalances: (chain: string) => Promise<void>;
+}
+
+export const WalletContext = createContext<WalletContextValue | null>(null);
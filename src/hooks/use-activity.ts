@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Activity } from "@/types/activity";
+import { ActivityAccount, fetchActivity } from "@/utils/activity";
+import { subscribeToNetworkChanges } from "@/utils/chains/networks";
+import { useConnectedAccounts } from "./use-wallet";
+
+export const useActivity = () => {
+  const connected = useConnectedAccounts();
+  // Wallet state changes with every balance refresh; only reload when accounts change.
+  const accountsKey = connected.map(({ chain, address }) => `${chain}:${address}`).join(",");
+  const accounts = useMemo<ActivityAccount[]>(
+    () =>
+      accountsKey
+        ? accountsKey.split(",").map((entry) => {
+            const separator = entry.indexOf(":");
+            return { chain: entry.slice(0, separator), address: entry.slice(separator + 1) };
+          })
+        : [],
+    [accountsKey]
+  );
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const latestRequest = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const requestId = ++latestRequest.current;
+    if (!accounts.length) {
+      setActivities([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const next = await fetchActivity(accounts);
+    // A newer refresh superseded this one.
+    if (latestRequest.current !== requestId) return;
+    setActivities(next);
+    setIsLoading(false);
+  }, [accounts]);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToNetworkChanges(() => refresh());
+  }, [refresh]);
+
+  return { activities, isLoading, refresh };
+};
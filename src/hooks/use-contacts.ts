@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getContacts, subscribeToContacts } from "@/utils/contacts";
+
+export const useContacts = () => useSyncExternalStore(subscribeToContacts, getContacts);
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { FeeEstimate, Token } from "@/types/wallet";
+import { getChainAdapter } from "@/utils/chains";
+import { isPositiveAmount } from "@/utils/amount";
+
+const ESTIMATE_DEBOUNCE_MS = 400;
+
+export const useFeeEstimate = (token: Token | null, toAddress: string, amount: string) => {
+  const [fee, setFee] = useState<FeeEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFee(null);
+    setError(null);
+
+    const adapter = token ? getChainAdapter(token.chain) : undefined;
+    if (!token || !adapter || !adapter.validateAddress(toAddress).valid || !isPositiveAmount(amount, token.decimals)) {
+      setIsEstimating(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsEstimating(true);
+
+    const timer = setTimeout(() => {
+      adapter
+        .estimateFee({ token, toAddress, amount })
+        .then((estimate) => {
+          if (!cancelled) setFee(estimate);
+        })
+        .catch((err) => {
+          console.error("Error estimating network fee:", err);
+          if (!cancelled) setError(err instanceof Error ? err.message : "Could not estimate fee");
+        })
+        .finally(() => {
+          if (!cancelled) setIsEstimating(false);
+        });
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [token, toAddress, amount]);
+
+  return { fee, isEstimating, error };
+};
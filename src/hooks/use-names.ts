@@ -0,0 +1,88 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { getChainAdapter } from "@/utils/chains";
+import { toWalletError } from "@/utils/chains/errors";
+import { getActiveNetwork, subscribeToNetworkChanges } from "@/utils/chains/networks";
+
+const RESOLVE_DEBOUNCE_MS = 400;
+
+// Names are registered per network, so lookups rerun when the user switches networks.
+const useNameServiceNetwork = (chain: string | undefined) =>
+  useSyncExternalStore(subscribeToNetworkChanges, () =>
+    chain && getChainAdapter(chain)?.names ? getActiveNetwork(chain) : undefined
+  );
+
+/** Forward-resolves the input when it looks like a name on the chain's name service. */
+export const useResolvedName = (chain: string | undefined, input: string) => {
+  const [address, setAddress] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const names = chain ? getChainAdapter(chain)?.names : undefined;
+  const name = input.trim();
+  const isName = !!names?.isName(name);
+  const network = useNameServiceNetwork(chain);
+
+  useEffect(() => {
+    setAddress(null);
+    setError(null);
+
+    if (!names || !isName) {
+      setIsResolving(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsResolving(true);
+
+    const timer = setTimeout(() => {
+      names
+        .resolve(name)
+        .then((resolved) => {
+          if (cancelled) return;
+          setAddress(resolved);
+          if (!resolved) setError(`${name} is not registered on ${network?.name ?? "this network"}.`);
+        })
+        .catch((err) => {
+          console.error("Error resolving name:", err);
+          if (!cancelled) setError(`Could not resolve ${name}. ${toWalletError(err).message}`);
+        })
+        .finally(() => {
+          if (!cancelled) setIsResolving(false);
+        });
+    }, RESOLVE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [names, name, isName, network]);
+
+  return { isName, address, isResolving, error };
+};
+
+/** Reverse-resolves an account to its primary name, or null when it has none. */
+export const usePrimaryName = (chain: string, address: string | null) => {
+  const [name, setName] = useState<string | null>(null);
+  const network = useNameServiceNetwork(chain);
+
+  useEffect(() => {
+    setName(null);
+
+    const names = getChainAdapter(chain)?.names;
+    if (!names || !address) return;
+
+    let cancelled = false;
+    names
+      .lookup(address)
+      .then((resolved) => {
+        if (!cancelled) setName(resolved);
+      })
+      .catch((err) => console.error("Error looking up primary name:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chain, address, network]);
+
+  return name;
+};
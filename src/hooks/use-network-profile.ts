@@ -0,0 +1,32 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { NetworkProfile } from "@/types/network";
+import {
+  getActiveNetwork,
+  getActiveProfile,
+  setActiveNetwork,
+  setActiveProfile,
+  subscribeToNetworkChanges,
+} from "@/utils/chains/networks";
+
+export const useNetworkProfile = (chain: string) => {
+  const profile = useSyncExternalStore(subscribeToNetworkChanges, () => getActiveProfile(chain));
+
+  const setProfile = useCallback(
+    (next: NetworkProfile) => setActiveProfile(chain, next),
+    [chain]
+  );
+
+  return [profile, setProfile] as const;
+};
+
+export const useActiveNetwork = (chain: string) => {
+  // Network configs are static objects, so the snapshot stays referentially stable.
+  const network = useSyncExternalStore(subscribeToNetworkChanges, () => getActiveNetwork(chain));
+
+  const setNetwork = useCallback(
+    (networkId: string) => setActiveNetwork(chain, networkId),
+    [chain]
+  );
+
+  return [network, setNetwork] as const;
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getTrackedTransactions, subscribeToTransactions } from "@/utils/pendingTransactions";
+
+export const usePendingTransactions = () =>
+  useSyncExternalStore(subscribeToTransactions, getTrackedTransactions);
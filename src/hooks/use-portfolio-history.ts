@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getSnapshots, subscribeToSnapshots } from "@/utils/portfolio/history";
+
+export const usePortfolioHistory = () => useSyncExternalStore(subscribeToSnapshots, getSnapshots);
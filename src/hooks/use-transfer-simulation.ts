@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { Token, TransferSimulation } from "@/types/wallet";
+import { getChainAdapter } from "@/utils/chains";
+import { isPositiveAmount } from "@/utils/amount";
+
+/** Dry-runs the transfer on chains that support simulation; stays idle elsewhere. */
+export const useTransferSimulation = (token: Token | null, toAddress: string, amount: string) => {
+  const [simulation, setSimulation] = useState<TransferSimulation | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSimulation(null);
+    setError(null);
+
+    const adapter = token ? getChainAdapter(token.chain) : undefined;
+    if (!token || !adapter?.simulate || !isPositiveAmount(amount, token.decimals)) {
+      setIsSimulating(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSimulating(true);
+
+    adapter
+      .simulate({ token, toAddress, amount })
+      .then((result) => {
+        if (!cancelled) setSimulation(result);
+      })
+      .catch((err) => {
+        console.error("Error simulating transfer:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not simulate transfer");
+      })
+      .finally(() => {
+        if (!cancelled) setIsSimulating(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, toAddress, amount]);
+
+  return { simulation, isSimulating, error };
+};
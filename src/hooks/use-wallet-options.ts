@@ -0,0 +1,21 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { WalletOption } from "@/types/wallet";
+import { getChainAdapter } from "@/utils/chains";
+
+const NO_WALLETS: WalletOption[] = [];
+const noop = () => () => {};
+
+export const useWalletOptions = (chain: string) => {
+  const discovery = getChainAdapter(chain)?.wallets;
+  const subscribe = discovery?.subscribe ?? noop;
+
+  const wallets = useSyncExternalStore(subscribe, () => discovery?.getWallets() ?? NO_WALLETS);
+  const selected = useSyncExternalStore(subscribe, () => discovery?.getSelectedWallet());
+
+  const selectWallet = useCallback(
+    (walletId: string) => discovery?.selectWallet(walletId),
+    [discovery]
+  );
+
+  return { wallets, selected, selectWallet };
+};
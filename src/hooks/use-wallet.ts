@@ -0,0 +1,50 @@
+import { useContext, useMemo } from "react";
+import { WalletContext, WalletState } from "@/contexts/wallet-context";
+import { Token } from "@/types/wallet";
+
+export interface ConnectedAccount {
+  chain: string;
+  address: string;
+}
+
+export const useWalletContext = () => {
+  const context = useContext(WalletContext);
+  if (!context) {
+    throw new Error("useWallet must be used within a WalletProvider.");
+  }
+
+  return context;
+};
+
+export const useWallet = (chain: string) => {
+  const { wallets, connect, disconnect, refreshBalances } = useWalletContext();
+  const wallet: WalletState = wallets[chain];
+
+  return useMemo(
+    () => ({
+      ...wallet,
+      connect: () => connect(chain),
+      disconnect: () => disconnect(chain),
+      refreshBalances: () => refreshBalances(chain),
+    }),
+    [wallet, chain, connect, disconnect, refreshBalances]
+  );
+};
+
+export const useConnectedAccounts = (): ConnectedAccount[] => {
+  const { wallets } = useWalletContext();
+
+  return useMemo(
+    () =>
+      Object.values(wallets)
+        .filter((wallet) => wallet.isConnected && wallet.address)
+        .map((wallet) => ({ chain: wallet.chain, address: wallet.address! })),
+    [wallets]
+  );
+};
+
+export const useAllTokens = (): Token[] => {
+  const { wallets } = useWalletContext();
+
+  return useMemo(() => Object.values(wallets).flatMap((wallet) => wallet.tokens), [wallets]);
+};
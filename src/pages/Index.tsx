@@ -2,18 +2,23 @@ import React, { useState } from "react";
 import MVMWalletConnector from "@/components/MVMWalletConnector";
 import EVMWalletConnector from "@/components/EVMWalletConnector";
 import SVMWalletConnector from "@/components/SVMWalletConnector";
-import { Token, TransferParams } from "@/types/wallet";
+import NetworkSelector from "@/components/NetworkSelector";
+import NetworkSwitcher from "@/components/NetworkSwitcher";
+import AddTokenForm from "@/components/AddTokenForm";
+import WalletPicker from "@/components/WalletPicker";
+import PortfolioSummary from "@/components/PortfolioSummary";
+import PortfolioChart from "@/components/PortfolioChart";
+import ActivityList from "@/components/ActivityList";
+import PendingTransactions from "@/components/PendingTransactions";
+import AddressBook from "@/components/AddressBook";
+import TransferDialog from "@/components/TransferDialog";
+import { Token } from "@/types/wallet";
 import { Button } from "@/components/ui/button";
-import { transferTokens } from "@/utils/wallet";
-import { toast } from "@/hooks/use-toast";
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
+import { getChainAdapter, getChainAdapters } from "@/utils/chains";
+import { getNetwork } from "@/utils/chains/networks";
+import { formatUSD, getTokenValue, isPriceStale } from "@/utils/prices";
+import { formatDisplayAmount } from "@/utils/amount";
+import { useAllTokens } from "@/hooks/use-wallet";
 
 const chainColors = {
   mvm: "from-indigo-500 to-indigo-800 text-indigo-100 border-indigo-400",
@@ -22,59 +27,22 @@ const chainColors = {
   default: "from-zinc-700 to-zinc-900 text-zinc-100 border-zinc-500",
 };
 
-const chainDisplayNames: Record<string, string> = {
-  evm: "Ethereum",
-  svm: "Solana",
-  mvm: "Aptos",
+const walletConnectors: Record<string, React.FC> = {
+  mvm: MVMWalletConnector,
+  evm: EVMWalletConnector,
+  svm: SVMWalletConnector,
 };
 
 const Index = () => {
-  const [allTokens, setAllTokens] = useState<Token[]>([]);
+  const allTokens = useAllTokens();
   const [selectedToken, setSelectedToken] = useState<Token | null>(null);
-  const [toAddress, setToAddress] = useState("");
-  const [amount, setAmount] = useState("");
   const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
 
-  const handleSetTokenBalances = (tokens: Token[], chain: string) => {
-    setAllTokens((prev) => {
-      const filtered = prev.filter((token) => token.chain !== chain);
-      return [...filtered, ...tokens];
-    });
-  };
-
   const handleTransfer = (token: Token) => {
     setSelectedToken(token);
-    setToAddress("");
-    setAmount("");
     setIsTransferDialogOpen(true);
   };
 
-  const handleSubmitTransfer = async () => {
-    if (!selectedToken || !toAddress || !amount) {
-      toast({
-        title: "Error",
-        description: "Please fill in all fields",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const params: TransferParams = {
-      token: selectedToken,
-      toAddress,
-      amount,
-    };
-
-    const success = await transferTokens(params);
-    if (success) {
-      toast({
-        title: "Success",
-        description: `${selectedToken.symbol} sent successfully!`,
-      });
-      setIsTransferDialogOpen(false);
-    }
-  };
-
   const getChainClass = (chain: string) => {
     return chainColors[chain as keyof typeof chainColors] || chainColors.default;
   };
@@ -94,30 +62,20 @@ const Index = () => {
         <section className="space-y-4">
           <h2 className="text-2xl font-semibold text-indigo-200">Connect Wallets</h2>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="glass-card">
-              <MVMWalletConnector
-                onConnectChange={() => {}}
-                setTokenBalances={(tokens) =>
-                  handleSetTokenBalances(tokens, "mvm")
-                }
-              />
-            </div>
-            <div className="glass-card">
-              <EVMWalletConnector
-                onConnectChange={() => {}}
-                setTokenBalances={(tokens) =>
-                  handleSetTokenBalances(tokens, "evm")
-                }
-              />
-            </div>
-            <div className="glass-card">
-              <SVMWalletConnector
-                onConnectChange={() => {}}
-                setTokenBalances={(tokens) =>
-                  handleSetTokenBalances(tokens, "svm")
-                }
-              />
-            </div>
+            {getChainAdapters().map((adapter) => {
+              const Connector = walletConnectors[adapter.id];
+              if (!Connector) return null;
+
+              return (
+                <div key={adapter.id} className="glass-card">
+                  <Connector />
+                  <WalletPicker chain={adapter.id} />
+                  <NetworkSelector chain={adapter.id} />
+                  <NetworkSwitcher chain={adapter.id} />
+                  {adapter.id === "evm" && <AddTokenForm chain={adapter.id} />}
+                </div>
+              );
+            })}
           </div>
         </section>
 
@@ -125,6 +83,8 @@ const Index = () => {
           <h2 className="text-2xl font-semibold text-indigo-200 mb-4">
             Your Tokens
           </h2>
+          {allTokens.length > 0 && <PortfolioSummary tokens={allTokens} />}
+          {allTokens.length > 0 && <PortfolioChart />}
           {allTokens.length > 0 ? (
             <div className="overflow-x-auto rounded-xl backdrop-blur bg-zinc-900/70 shadow-2xl ring-1 ring-zinc-800">
               <table className="min-w-full text-zinc-200">
@@ -132,6 +92,7 @@ const Index = () => {
                   <tr>
                     <th className="px-6 py-3 text-left font-medium text-indigo-300">Token</th>
                     <th className="px-6 py-3 text-left font-medium text-zinc-400">Balance</th>
+                    <th className="px-6 py-3 text-left font-medium text-zinc-400">Value</th>
                     <th className="px-6 py-3 text-left font-medium text-zinc-400">Chain</th>
                     <th className="px-6 py-3 text-right font-medium text-zinc-400">Actions</th>
                   </tr>
@@ -139,7 +100,7 @@ const Index = () => {
                 <tbody>
                   {allTokens.map((token) => (
                     <tr
-                      key={`${token.chain}-${token.id}`}
+                      key={`${token.chain}-${token.network}-${token.id}`}
                       className="border-t border-zinc-800 hover:bg-zinc-800/60 transition"
                     >
                       <td className="px-6 py-4 flex items-center space-x-3">
@@ -163,15 +124,36 @@ const Index = () => {
                           </div>
                         </div>
                       </td>
-                      <td className="px-6 py-4">{token.balance}</td>
+                      <td className="px-6 py-4" title={token.balance}>
+                        {formatDisplayAmount(token.rawBalance, token.decimals)}
+                      </td>
+                      <td className="px-6 py-4">
+                        {token.priceUpdatedAt ? (
+                          <span
+                            title={`Price as of ${new Date(token.priceUpdatedAt).toLocaleString()}`}
+                          >
+                            {formatUSD(getTokenValue(token))}
+                            {isPriceStale(token) && (
+                              <span className="ml-2 text-xs text-amber-400">stale</span>
+                            )}
+                          </span>
+                        ) : (
+                          <span className="text-zinc-500">—</span>
+                        )}
+                      </td>
                       <td className="px-6 py-4">
                         <span
                           className={`px-3 py-1 text-xs font-semibold rounded-full border bg-gradient-to-r shadow ${getChainClass(
                             token.chain
                           )} uppercase drop-shadow`}
                         >
-                          {chainDisplayNames[token.chain] || token.chain}
+                          {getChainAdapter(token.chain)?.displayName || token.chain}
                         </span>
+                        {token.network && (
+                          <div className="mt-1 text-xs text-zinc-500">
+                            {getNetwork(token.chain, token.network).name}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-right">
                         <Button
@@ -197,50 +179,19 @@ const Index = () => {
             </div>
           )}
         </section>
+
+        <PendingTransactions />
+
+        {allTokens.length > 0 && <ActivityList />}
+
+        <AddressBook />
       </div>
 
-      {/* Transfer dialog */}
-      <Dialog open={isTransferDialogOpen} onOpenChange={setIsTransferDialogOpen}>
-        <DialogContent className="sm:max-w-md dark:bg-zinc-900 dark:text-zinc-200 bg-zinc-900 border-zinc-700 rounded-2xl shadow-2xl">
-          <DialogHeader>
-            <DialogTitle>
-              <span className="font-mono text-indigo-300">
-                Send {selectedToken?.symbol}
-              </span>
-            </DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4 mt-3">
-            <div>
-              <Label htmlFor="address" className="text-zinc-400">Recipient Address</Label>
-              <Input
-                id="address"
-                className="mt-1 bg-zinc-800 border-zinc-600 focus:ring-indigo-500 focus:border-indigo-600 text-zinc-100"
-                value={toAddress}
-                onChange={(e) => setToAddress(e.target.value)}
-                placeholder="Enter recipient address"
-                autoFocus
-              />
-            </div>
-            <div>
-              <Label htmlFor="amount" className="text-zinc-400">Amount</Label>
-              <Input
-                id="amount"
-                type="number"
-                className="mt-1 bg-zinc-800 border-zinc-600 focus:ring-indigo-500 focus:border-indigo-600 text-zinc-100"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                placeholder={`Amount in ${selectedToken?.symbol || ""}`}
-              />
-            </div>
-            <Button
-              onClick={handleSubmitTransfer}
-              className="w-full bg-gradient-to-r from-indigo-500 via-fuchsia-600 to-orange-500 hover:opacity-90 text-white font-semibold rounded-lg shadow-xl py-2 transition"
-            >
-              Send {selectedToken?.symbol}
-            </Button>
-          </div>
-        </DialogContent>
-      </Dialog>
+      <TransferDialog
+        token={selectedToken}
+        open={isTransferDialogOpen}
+        onOpenChange={setIsTransferDialogOpen}
+      />
     </div>
   );
 };
@@ -0,0 +1,28 @@
+export type ActivityDirection = "in" | "out" | "self";
+
+export type ActivityStatus = "success" | "failed";
+
+export interface ActivityToken {
+  symbol: string;
+  // Contract, mint or coin type; "native" for the chain's own currency.
+  address: string;
+  decimals: number;
+}
+
+/** One asset movement in a past transaction, normalized across chains. */
+export interface Activity {
+  id: string;
+  chain: string;
+  network?: string;
+  hash: string;
+  direction: ActivityDirection;
+  counterparty?: string;
+  // Human-readable amount, in whole units of `token`.
+  amount: string;
+  token: ActivityToken;
+  // Network fee paid by the account in the native currency, only set for transactions it sent.
+  fee?: string;
+  status: ActivityStatus;
+  // Milliseconds since the epoch.
+  timestamp: number;
+}
@@ -0,0 +1,21 @@
+export interface Contact {
+  id: string;
+  label: string;
+  // Canonical address per chain id, e.g. { evm: "0xAb…", svm: "7xKX…" }.
+  addresses: Record<string, string>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Shape of the JSON file produced by exporting the address book.
+export interface ContactsExport {
+  version: number;
+  contacts: Pick<Contact, "label" | "addresses">[];
+}
+
+export interface ContactsImportResult {
+  // Contacts that had at least one usable address.
+  imported: number;
+  // Addresses left out because the contact already has a different one on that chain.
+  conflicts: number;
+}
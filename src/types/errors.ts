@@ -0,0 +1,28 @@
+// Stable identifiers for why a wallet operation failed, safe to branch on in the UI.
+export type WalletErrorCode =
+  | "user_rejected"
+  | "insufficient_funds"
+  | "network_mismatch"
+  | "rpc_unavailable"
+  | "wallet_unavailable"
+  | "transaction_failed"
+  | "unknown";
+
+interface WalletErrorBase<C extends WalletErrorCode> {
+  code: C;
+  // Human-readable explanation, suitable for showing to the user as is.
+  message: string;
+}
+
+export type WalletError =
+  | WalletErrorBase<"user_rejected">
+  | WalletErrorBase<"insufficient_funds">
+  | (WalletErrorBase<"network_mismatch"> & {
+      // Name of the network the operation needed, e.g. "Base Sepolia".
+      expectedNetwork?: string;
+    })
+  | WalletErrorBase<"rpc_unavailable">
+  | WalletErrorBase<"wallet_unavailable">
+  // The chain would reject or did reject the transaction, e.g. a Move abort in simulation.
+  | WalletErrorBase<"transaction_failed">
+  | (WalletErrorBase<"unknown"> & { cause?: unknown });
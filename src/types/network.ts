@@ -0,0 +1,30 @@
+export type NetworkProfile = "mainnet" | "testnet" | "devnet" | "local";
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+// Block ranges an EVM network reads its transfer history from; see fetchEVMActivity.
+export interface ActivityWindow {
+  /** Blocks searched for ERC-20 transfer logs. Public RPCs cap eth_getLogs ranges. */
+  logLookbackBlocks?: number;
+  /**
+   * Blocks read in full for native transfers. These leave no logs and RPCs have
+   * no per-address index, so without an indexer every block has to be fetched.
+   */
+  nativeScanBlocks?: number;
+}
+
+export interface NetworkConfig {
+  id: string;
+  profile: NetworkProfile;
+  name: string;
+  rpcUrl: string;
+  chainId?: number;
+  explorerUrl?: string;
+  explorerQuery?: string;
+  nativeCurrency: NativeCurrency;
+  activityWindow?: ActivityWindow;
+}
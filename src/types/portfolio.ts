@@ -0,0 +1,24 @@
+export interface TokenSnapshot {
+  id: string;
+  symbol: string;
+  network?: string;
+  // Balance in base units, see `Token.rawBalance`.
+  rawBalance: string;
+  decimals: number;
+  priceUSD: string;
+}
+
+// Holdings of one chain at the moment its balances were refreshed. A snapshot without
+// tokens records that the chain's account was disconnected or switched.
+export interface PortfolioSnapshot {
+  chain: string;
+  timestamp: number;
+  tokens: TokenSnapshot[];
+}
+
+export interface PortfolioPoint {
+  timestamp: number;
+  total: number;
+  // Value per chain id, for the breakdown view.
+  chains: Record<string, number>;
+}
@@ -0,0 +1,15 @@
+export interface PriceQuote {
+  priceUSD: string;
+  // When the source published the price, in milliseconds since the epoch.
+  publishedAt: number;
+  source: string;
+}
+
+export interface PriceProvider {
+  id: string;
+  /**
+   * Looks up the USD price of an asset such as "ETH" or "USDC". `chain` tells
+   * the provider where the asset was held, so it can prefer an oracle there.
+   */
+  getPrice: (asset: string, chain: string) => Promise<PriceQuote | undefined>;
+}
@@ -0,0 +1,81 @@
+import { PublicKey, Transaction } from "@solana/web3.js";
+import type { Buffer as BufferPolyfill } from "buffer";
+
+export interface SolanaWalletProvider {
+  isPhantom?: boolean;
+  isConnected: boolean;
+  publicKey: PublicKey;
+  connect: () => Promise<{ publicKey: PublicKey }>;
+  disconnect: () => Promise<void>;
+  signTransaction: (transaction: Transaction) => Promise<Transaction>;
+  on: (event: string, callback: (...args: unknown[]) => void) => void;
+  off: (event: string, callback: (...args: unknown[]) => void) => void;
+}
+
+export interface EthereumProvider {
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+  on: (event: string, callback: (...args: unknown[]) => void) => void;
+  removeListener: (event: string, callback: (...args: unknown[]) => void) => void;
+  isMetaMask?: boolean;
+}
+
+// EIP-6963 multi injected provider discovery.
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EthereumProvider;
+}
+
+// Wallet Standard (https://github.com/wallet-standard/wallet-standard) shapes used here.
+export interface StandardWalletAccount {
+  address: string;
+  publicKey: Uint8Array;
+  chains: readonly string[];
+  features: readonly string[];
+}
+
+export interface StandardWallet {
+  version: string;
+  name: string;
+  icon: string;
+  chains: readonly string[];
+  features: Readonly<Record<string, unknown>>;
+  accounts: readonly StandardWalletAccount[];
+}
+
+export interface StandardWalletAppApi {
+  register: (...wallets: StandardWallet[]) => () => void;
+}
+
+export type StandardWalletRegisterCallback = (api: StandardWalletAppApi) => void;
+
+export interface PetraWallet {
+  connect: () => Promise<void>;
+  disconnect: () => Promise<void>;
+  account: () => Promise<{ address: string; publicKey?: string }>;
+  isConnected: () => Promise<boolean>;
+  network: () => Promise<string>;
+  signAndSubmitTransaction: (transaction: unknown) => Promise<{ hash: string }>;
+  onAccountChange: (callback: (newAddress: string) => void) => void;
+  onNetworkChange: (callback: (newNetwork: string) => void) => void;
+}
+
+declare global {
+  interface Window {
+    ethereum?: EthereumProvider;
+    solana?: SolanaWalletProvider;
+    petra?: PetraWallet;
+    Buffer?: typeof BufferPolyfill;
+  }
+
+  interface WindowEventMap {
+    "eip6963:announceProvider": CustomEvent<EIP6963ProviderDetail>;
+    "wallet-standard:register-wallet": CustomEvent<StandardWalletRegisterCallback>;
+  }
+}
@@ -0,0 +1,15 @@
+// "dropped" marks a transaction the chain has not seen for a long time. It may still be
+// waiting in a mempool and confirm later, so it keeps being watched.
+export type TransactionStatus = "submitted" | "dropped" | "confirmed" | "finalized" | "failed";
+
+export interface TrackedTransaction {
+  hash: string;
+  chain: string;
+  network?: string;
+  // Short human-readable description, e.g. "Send 1.5 USDC to 0x12ab...34cd".
+  summary: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  updatedAt: number;
+  error?: string;
+}
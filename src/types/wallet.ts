@@ -1,14 +1,24 @@
+import { Activity } from "./activity";
+import { TransactionStatus } from "./transaction";
+import { WalletError } from "./errors";
 
 export interface Token {
   id: string;
   symbol: string;
   name: string;
+  // Exact decimal amount of `rawBalance`; use `formatDisplayAmount` to show it to users.
   balance: string;
+  // Balance in the token's smallest unit as reported by the chain, e.g. wei or lamports.
+  rawBalance: string;
   decimals: number;
   address: string;
   chain: string;
+  // Id of the network the balance was read on, see `NetworkConfig.id`.
+  network?: string;
   logoURI: string;
   priceUSD: string;
+  // When the price source published `priceUSD`, in milliseconds since the epoch.
+  priceUpdatedAt?: number;
 }
 
 export interface TransferParams {
@@ -16,3 +26,95 @@ export interface TransferParams {
   toAddress: string;
   amount: string;
 }
+
+export interface AddressValidation {
+  valid: boolean;
+  // Canonical form of a valid address, which is what transfers should use.
+  address?: string;
+  error?: string;
+  // The address is usable but deserves a second look before sending.
+  warning?: string;
+}
+
+export type TransferResult =
+  | { ok: true; hash: string; explorerUrl?: string }
+  | { ok: false; error: WalletError };
+
+export interface FeeEstimate {
+  amount: string;
+  symbol: string;
+  description?: string;
+}
+
+export interface BalanceChange {
+  address: string;
+  symbol: string;
+  // Signed amount in whole units, negative for outflows.
+  amount: string;
+}
+
+export interface TransferSimulation {
+  success: boolean;
+  // Why the transaction would fail, set when `success` is false.
+  error?: WalletError;
+  gasUsed: string;
+  fee: FeeEstimate;
+  balanceChanges: BalanceChange[];
+}
+
+export type ExplorerTarget = "tx" | "address";
+
+export interface ChainAdapterEvents {
+  onAccountChange: (address: string | null) => void;
+  onNetworkChange: () => void;
+}
+
+export interface WalletOption {
+  id: string;
+  name: string;
+  icon?: string;
+}
+
+// Lets the user choose between several wallets installed for the same chain.
+export interface WalletDiscovery {
+  getWallets: () => WalletOption[];
+  getSelectedWallet: () => WalletOption | undefined;
+  selectWallet: (walletId: string) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Human-readable names for addresses, such as ENS on Ethereum.
+export interface NameService {
+  // Whether the input looks like a name rather than an address, e.g. "alice.eth".
+  isName: (input: string) => boolean;
+  // Both lookups run against the active network and resolve with null when nothing is registered.
+  // `resolve` rejects with a user-facing message when the name should not receive funds.
+  resolve: (name: string) => Promise<string | null>;
+  lookup: (address: string) => Promise<string | null>;
+}
+
+export interface ChainAdapter {
+  id: string;
+  displayName: string;
+  walletName: string;
+  installUrl: string;
+  wallets?: WalletDiscovery;
+  names?: NameService;
+  isInstalled: () => boolean;
+  connect: () => Promise<string>;
+  disconnect: () => Promise<void>;
+  getConnectedAccount: () => Promise<string | null>;
+  subscribe: (events: ChainAdapterEvents) => () => void;
+  getBalances: (address: string) => Promise<Token[]>;
+  getActivity: (address: string) => Promise<Activity[]>;
+  // Shown with the history when `getActivity` only covers part of it on the active network.
+  getActivityNotice?: () => string;
+  validateAddress: (address: string) => AddressValidation;
+  estimateFee: (params: TransferParams) => Promise<FeeEstimate>;
+  // Dry-runs a transfer, for chains whose nodes can simulate transactions.
+  simulate?: (params: TransferParams) => Promise<TransferSimulation>;
+  // Resolves as soon as the transaction is submitted; failures resolve too, never reject.
+  transfer: (params: TransferParams) => Promise<TransferResult>;
+  getTransactionStatus: (hash: string, networkId?: string) => Promise<TransactionStatus>;
+  explorerUrl: (target: ExplorerTarget, value: string, networkId?: string) => string | undefined;
+}
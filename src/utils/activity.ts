@@ -0,0 +1,28 @@
+import { Activity } from "@/types/activity";
+import { getChainAdapter } from "@/utils/chains";
+
+export interface ActivityAccount {
+  chain: string;
+  address: string;
+}
+
+/**
+ * Loads recent activity for every account and merges it newest first. A chain
+ * whose history fails to load is logged and left out instead of failing the rest.
+ */
+export const fetchActivity = async (accounts: ActivityAccount[]): Promise<Activity[]> => {
+  const results = await Promise.allSettled(
+    accounts.map(({ chain, address }) => {
+      const adapter = getChainAdapter(chain);
+      return adapter ? adapter.getActivity(address) : Promise.resolve([]);
+    })
+  );
+
+  return results
+    .flatMap((result, index) => {
+      if (result.status === "fulfilled") return result.value;
+      console.error(`Error fetching ${accounts[index].chain} activity:`, result.reason);
+      return [];
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkAmount,
+  formatAmount,
+  formatDisplayAmount,
+  isPositiveAmount,
+  parseAmount,
+} from "./amount";
+
+// 2^53 + 1, the first integer a float can not represent.
+const ABOVE_MAX_SAFE = 9_007_199_254_740_993n;
+
+describe("checkAmount", () => {
+  it("accepts plain decimals", () => {
+    expect(checkAmount("1", 18)).toBeNull();
+    expect(checkAmount("1.5", 6)).toBeNull();
+    expect(checkAmount("0.000001", 6)).toBeNull();
+  });
+
+  it("accepts a leading or trailing decimal point", () => {
+    expect(checkAmount(".5", 2)).toBeNull();
+    expect(checkAmount("1.", 2)).toBeNull();
+  });
+
+  it("ignores surrounding whitespace", () => {
+    expect(checkAmount("  2.5 ", 6)).toBeNull();
+  });
+
+  it("rejects empty input", () => {
+    expect(checkAmount("", 6)).toBe("Enter an amount.");
+    expect(checkAmount("   ", 6)).toBe("Enter an amount.");
+  });
+
+  it("rejects a lone decimal point", () => {
+    expect(checkAmount(".", 6)).toBe("Enter a plain decimal number, e.g. 1.25.");
+  });
+
+  it.each(["-1", "+1", "1e5", "1,000", "0x10", "1.2.3", "abc", "Infinity", "NaN"])(
+    "rejects %j",
+    (input) => {
+      expect(checkAmount(input, 18)).toBe("Enter a plain decimal number, e.g. 1.25.");
+    }
+  );
+
+  it("allows exactly the token's decimals", () => {
+    expect(checkAmount("0.123456", 6)).toBeNull();
+    expect(checkAmount("1.000000000000000001", 18)).toBeNull();
+  });
+
+  it("rejects more decimals than the token has", () => {
+    expect(checkAmount("0.1234567", 6)).toBe("At most 6 decimal places are allowed.");
+    expect(checkAmount("1.0000000000000000001", 18)).toBe(
+      "At most 18 decimal places are allowed."
+    );
+  });
+
+  it("does not count trailing zeros as extra decimals", () => {
+    expect(checkAmount("1.500000000", 6)).toBeNull();
+    expect(checkAmount("1.0000000", 0)).toBeNull();
+  });
+
+  it("rejects fractions of indivisible tokens", () => {
+    expect(checkAmount("1.5", 0)).toBe("This token cannot be split into fractions.");
+  });
+});
+
+describe("parseAmount", () => {
+  it("converts whole and fractional amounts to base units", () => {
+    expect(parseAmount("1", 18)).toBe(1_000_000_000_000_000_000n);
+    expect(parseAmount("1.5", 6)).toBe(1_500_000n);
+    expect(parseAmount("0.1", 9)).toBe(100_000_000n);
+    expect(parseAmount("0.000001", 6)).toBe(1n);
+  });
+
+  it("handles a leading or trailing decimal point", () => {
+    expect(parseAmount(".5", 2)).toBe(50n);
+    expect(parseAmount("1.", 2)).toBe(100n);
+  });
+
+  it("drops trailing zeros beyond the token's decimals", () => {
+    expect(parseAmount("1.2300", 2)).toBe(123n);
+    expect(parseAmount("5.000", 0)).toBe(5n);
+  });
+
+  it("parses zero", () => {
+    expect(parseAmount("0", 6)).toBe(0n);
+    expect(parseAmount("0.000", 6)).toBe(0n);
+    expect(parseAmount(".0", 6)).toBe(0n);
+  });
+
+  it("handles tokens without decimals", () => {
+    expect(parseAmount("42", 0)).toBe(42n);
+    expect(parseAmount("42.", 0)).toBe(42n);
+  });
+
+  it("keeps precision above 2^53", () => {
+    expect(parseAmount(ABOVE_MAX_SAFE.toString(), 0)).toBe(ABOVE_MAX_SAFE);
+    expect(parseAmount("9007199254.740993", 6)).toBe(ABOVE_MAX_SAFE);
+    expect(parseAmount("123456789012345678.123456789012345678", 18)).toBe(
+      123_456_789_012_345_678_123_456_789_012_345_678n
+    );
+  });
+
+  it("does not suffer float rounding", () => {
+    // 0.1 + 0.2 style errors would turn this into 29999999 or 30000001.
+    expect(parseAmount("0.3", 8)).toBe(30_000_000n);
+    expect(parseAmount("1.005", 3)).toBe(1_005n);
+  });
+
+  it("throws the validation message for invalid input", () => {
+    expect(() => parseAmount("1.234", 2)).toThrow("At most 2 decimal places are allowed.");
+    expect(() => parseAmount(".", 2)).toThrow("Enter a plain decimal number, e.g. 1.25.");
+    expect(() => parseAmount("-1", 2)).toThrow();
+    expect(() => parseAmount("", 2)).toThrow("Enter an amount.");
+  });
+});
+
+describe("formatAmount", () => {
+  it("formats base units as an exact decimal", () => {
+    expect(formatAmount(1_500_000n, 6)).toBe("1.5");
+    expect(formatAmount(123n, 2)).toBe("1.23");
+    expect(formatAmount(1n, 18)).toBe("0.000000000000000001");
+  });
+
+  it("drops trailing zeros", () => {
+    expect(formatAmount(1_000_000n, 6)).toBe("1");
+    expect(formatAmount(1_100_000n, 6)).toBe("1.1");
+  });
+
+  it("formats zero", () => {
+    expect(formatAmount(0n, 18)).toBe("0");
+    expect(formatAmount(0n, 0)).toBe("0");
+  });
+
+  it("handles tokens without decimals", () => {
+    expect(formatAmount(1000n, 0)).toBe("1000");
+  });
+
+  it("accepts strings and integer numbers", () => {
+    expect(formatAmount("1000", 3)).toBe("1");
+    expect(formatAmount(250, 2)).toBe("2.5");
+  });
+
+  it("keeps precision above 2^53", () => {
+    expect(formatAmount(ABOVE_MAX_SAFE, 0)).toBe("9007199254740993");
+    expect(formatAmount(ABOVE_MAX_SAFE, 6)).toBe("9007199254.740993");
+  });
+
+  it("formats negative amounts", () => {
+    expect(formatAmount(-5n, 9)).toBe("-0.000000005");
+    expect(formatAmount(-1_500_000n, 6)).toBe("-1.5");
+  });
+
+  it("round-trips with parseAmount", () => {
+    ["0", "1", "0.5", "123.456789", "9007199254.740993"].forEach((value) => {
+      expect(formatAmount(parseAmount(value, 6), 6)).toBe(value);
+    });
+  });
+});
+
+describe("formatDisplayAmount", () => {
+  it("groups thousands", () => {
+    expect(formatDisplayAmount(1_234_567_000_000n, 6)).toBe("1,234,567");
+  });
+
+  it("truncates to the display precision without rounding up", () => {
+    expect(formatDisplayAmount(1_999_999_999n, 9)).toBe("1.999999");
+    expect(formatDisplayAmount(1_234_567_891_234_567_890_123n, 18)).toBe("1,234.567891");
+    expect(formatDisplayAmount(1_999n, 3, 2)).toBe("1.99");
+  });
+
+  it("drops trailing zeros", () => {
+    expect(formatDisplayAmount("1500000", 6)).toBe("1.5");
+    expect(formatDisplayAmount(1_000_000_100n, 9)).toBe("1");
+  });
+
+  it("formats zero", () => {
+    expect(formatDisplayAmount(0, 9)).toBe("0");
+  });
+
+  it("handles tokens without decimals", () => {
+    expect(formatDisplayAmount(7n, 0)).toBe("7");
+    expect(formatDisplayAmount(12_345n, 0)).toBe("12,345");
+  });
+
+  it("keeps precision above 2^53", () => {
+    expect(formatDisplayAmount(ABOVE_MAX_SAFE, 0)).toBe("9,007,199,254,740,993");
+  });
+
+  it("shows dust as a bound instead of zero", () => {
+    expect(formatDisplayAmount(5n, 18)).toBe("<0.000001");
+    expect(formatDisplayAmount(1n, 9, 2)).toBe("<0.01");
+    expect(formatDisplayAmount(1n, 9, 0)).toBe("<1");
+  });
+
+  it("formats negative amounts and dust", () => {
+    expect(formatDisplayAmount(-1_234_500_000n, 6)).toBe("-1,234.5");
+    expect(formatDisplayAmount(-5n, 9)).toBe(">-0.000001");
+  });
+});
+
+describe("isPositiveAmount", () => {
+  it("is true only for valid amounts above zero", () => {
+    expect(isPositiveAmount("0.000001", 6)).toBe(true);
+    expect(isPositiveAmount("0", 6)).toBe(false);
+    expect(isPositiveAmount("0.000", 6)).toBe(false);
+    expect(isPositiveAmount("0.0000001", 6)).toBe(false);
+    expect(isPositiveAmount("abc", 6)).toBe(false);
+  });
+});
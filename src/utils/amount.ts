@@ -0,0 +1,76 @@
+/**
+ * Exact conversions between human-readable token amounts ("1.5") and integer base units
+ * (wei, lamports, octas). Everything goes through strings and bigint, never floats.
+ */
+
+const DECIMAL_INPUT = /^(\d*)(?:\.(\d*))?$/;
+
+/** Explains why the input is not a valid amount for a token, or returns null if it is. */
+export const checkAmount = (input: string, decimals: number): string | null => {
+  const value = input.trim();
+  if (!value) return "Enter an amount.";
+
+  const match = DECIMAL_INPUT.exec(value);
+  if (!match || (!match[1] && !match[2])) return "Enter a plain decimal number, e.g. 1.25.";
+
+  const fraction = match[2] ?? "";
+  if (fraction.replace(/0+$/, "").length > decimals) {
+    return decimals === 0
+      ? "This token cannot be split into fractions."
+      : `At most ${decimals} decimal places are allowed.`;
+  }
+
+  return null;
+};
+
+/** Parses a non-negative decimal string into base units, e.g. ("1.5", 6) -> 1500000n. */
+export const parseAmount = (input: string, decimals: number): bigint => {
+  const error = checkAmount(input, decimals);
+  if (error) throw new Error(error);
+
+  const [whole, fraction = ""] = input.trim().split(".");
+  const digits = `${whole}${fraction.replace(/0+$/, "").padEnd(decimals, "0")}`;
+  return BigInt(digits || "0");
+};
+
+/** Formats base units as an exact decimal string without trailing zeros, e.g. (1500000n, 6) -> "1.5". */
+export const formatAmount = (units: bigint | string | number, decimals: number): string => {
+  const value = BigInt(units);
+  const sign = value < 0n ? "-" : "";
+  const digits = (value < 0n ? -value : value).toString().padStart(decimals + 1, "0");
+
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+};
+
+/** Whether the input parses to more than zero base units. */
+export const isPositiveAmount = (input: string, decimals: number): boolean =>
+  checkAmount(input, decimals) === null && parseAmount(input, decimals) > 0n;
+
+const groupedFormatter = new Intl.NumberFormat("en-US");
+
+/**
+ * Formats base units for display: thousands separators and at most `maxFractionDigits`
+ * decimals, rounded down so a balance is never shown as more than it is.
+ * Use `formatAmount` wherever the value is parsed again.
+ */
+export const formatDisplayAmount = (
+  units: bigint | string | number,
+  decimals: number,
+  maxFractionDigits = 6
+): string => {
+  const exact = formatAmount(units, decimals);
+  const negative = exact.startsWith("-");
+  const [whole, fraction = ""] = (negative ? exact.slice(1) : exact).split(".");
+  const shown = fraction.slice(0, maxFractionDigits).replace(/0+$/, "");
+
+  // Dust that would round to zero is shown as "<0.000001" rather than "0".
+  if (whole === "0" && !shown && fraction) {
+    const smallest = maxFractionDigits > 0 ? `0.${"1".padStart(maxFractionDigits, "0")}` : "1";
+    return `${negative ? ">-" : "<"}${smallest}`;
+  }
+
+  const grouped = groupedFormatter.format(BigInt(whole));
+  return `${negative ? "-" : ""}${grouped}${shown ? `.${shown}` : ""}`;
+};
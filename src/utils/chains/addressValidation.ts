@@ -0,0 +1,73 @@
+import { ethers } from "ethers";
+import { PublicKey } from "@solana/web3.js";
+import { AddressValidation } from "@/types/wallet";
+
+const invalid = (error: string): AddressValidation => ({ valid: false, error });
+
+const EVM_HEX_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+/** Checks a 20-byte hex address and, when it is mixed-case, its EIP-55 checksum. */
+export const validateEVMAddress = (input: string): AddressValidation => {
+  const address = input.trim();
+  if (!address) return invalid("Enter a recipient address.");
+  if (!EVM_HEX_ADDRESS.test(address)) {
+    return invalid("Must be 0x followed by 40 hexadecimal characters.");
+  }
+
+  const checksummed = ethers.getAddress(address.toLowerCase());
+  const body = address.slice(2);
+  const isSingleCase = body === body.toLowerCase() || body === body.toUpperCase();
+
+  if (!isSingleCase && address !== checksummed) {
+    return invalid("Checksum mismatch. The address may contain a typo.");
+  }
+
+  return {
+    valid: true,
+    address: checksummed,
+    warning:
+      isSingleCase && address !== checksummed
+        ? `This address has no checksum, so typos cannot be detected. Checksummed form: ${checksummed}`
+        : undefined,
+  };
+};
+
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+/** Checks a base58 public key and flags program-derived (off-curve) addresses. */
+export const validateSolanaAddress = (input: string): AddressValidation => {
+  const address = input.trim();
+  if (!address) return invalid("Enter a recipient address.");
+
+  if (!BASE58_ADDRESS.test(address)) {
+    return invalid("Contains characters that are not valid base58 (0, O, I and l are excluded).");
+  }
+
+  let publicKey: PublicKey;
+  try {
+    publicKey = new PublicKey(address);
+  } catch {
+    return invalid("Does not decode to a 32-byte Solana public key.");
+  }
+
+  return {
+    valid: true,
+    address: publicKey.toBase58(),
+    warning: PublicKey.isOnCurve(publicKey.toBytes())
+      ? undefined
+      : "This is a program-derived address. No private key controls it, so only its program can move funds sent here.",
+  };
+};
+
+const APTOS_HEX_ADDRESS = /^0x[0-9a-fA-F]{1,64}$/;
+
+/** Checks a 0x-prefixed Aptos address and expands short forms such as 0x1 to 64 digits. */
+export const validateAptosAddress = (input: string): AddressValidation => {
+  const address = input.trim();
+  if (!address) return invalid("Enter a recipient address.");
+  if (!APTOS_HEX_ADDRESS.test(address)) {
+    return invalid("Must be 0x followed by up to 64 hexadecimal characters.");
+  }
+
+  return { valid: true, address: `0x${address.slice(2).toLowerCase().padStart(64, "0")}` };
+};
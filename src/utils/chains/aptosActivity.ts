@@ -0,0 +1,210 @@
+import { AptosClient, Types } from "aptos";
+import { Activity } from "@/types/activity";
+import { NetworkConfig } from "@/types/network";
+import { formatAmount } from "@/utils/amount";
+import {
+  APTOS_COIN,
+  AssetInfo,
+  getAccountResources,
+  getCoinInfo,
+  getFungibleAssetInfo,
+  normalizeAddress,
+} from "./aptosBalances";
+
+const COIN_STORE_PREFIX = "0x1::coin::CoinStore<";
+const MAX_TRANSACTIONS = 25;
+const MAX_EVENTS_PER_COIN = 10;
+
+interface CoinStoreEvents {
+  deposit_events: { counter: string };
+}
+
+interface DecodedTransfer {
+  // Coin type, or the metadata object address of a fungible asset.
+  asset: string;
+  isFungibleAsset: boolean;
+  to: string;
+  amount: string;
+}
+
+// Fungible asset metadata arrives either as an address or as an `Object` struct.
+const objectAddress = (value: unknown) =>
+  typeof value === "string" ? value : (value as { inner: string }).inner;
+
+/** Recognizes the framework's transfer entry functions; anything else is not a transfer. */
+const decodeTransfer = (payload: Types.TransactionPayload): DecodedTransfer | null => {
+  if (payload.type !== "entry_function_payload") return null;
+  const { function: fn, type_arguments: typeArgs, arguments: args } =
+    payload as Types.TransactionPayload_EntryFunctionPayload;
+
+  switch (fn) {
+    case "0x1::aptos_account::transfer":
+      return { asset: APTOS_COIN, isFungibleAsset: false, to: args[0], amount: args[1] };
+    case "0x1::coin::transfer":
+    case "0x1::aptos_account::transfer_coins":
+      return { asset: typeArgs[0], isFungibleAsset: false, to: args[0], amount: args[1] };
+    case "0x1::primary_fungible_store::transfer":
+    case "0x1::aptos_account::transfer_fungible_assets":
+      return {
+        asset: objectAddress(args[0]),
+        isFungibleAsset: true,
+        to: args[1],
+        amount: args[2],
+      };
+    default:
+      return null;
+  }
+};
+
+const createAssetLookup = (client: AptosClient) => {
+  const cache = new Map<string, Promise<AssetInfo | null>>();
+  return (asset: string, isFungibleAsset: boolean) => {
+    let info = cache.get(asset);
+    if (!info) {
+      info = isFungibleAsset ? getFungibleAssetInfo(client, asset) : getCoinInfo(client, asset);
+      cache.set(asset, info);
+    }
+    return info;
+  };
+};
+
+const getUserTransactions = async (
+  client: AptosClient,
+  owner: string
+): Promise<Types.UserTransaction[]> => {
+  let sequenceNumber: number;
+  try {
+    sequenceNumber = Number((await client.getAccount(owner)).sequence_number);
+  } catch (error) {
+    // Accounts that never sent a transaction may not exist on chain yet.
+    if ((error as { status?: number }).status === 404) return [];
+    throw error;
+  }
+  if (!sequenceNumber) return [];
+
+  // The API pages from the oldest transaction, so start near the newest one.
+  const transactions = await client.getAccountTransactions(owner, {
+    start: Math.max(0, sequenceNumber - MAX_TRANSACTIONS),
+    limit: MAX_TRANSACTIONS,
+  });
+  return transactions.filter(
+    (transaction): transaction is Types.Transaction_UserTransaction =>
+      transaction.type === "user_transaction"
+  );
+};
+
+const getSentActivity = async (
+  client: AptosClient,
+  network: NetworkConfig,
+  owner: string,
+  lookupAsset: ReturnType<typeof createAssetLookup>
+): Promise<Activity[]> => {
+  const transactions = await getUserTransactions(client, owner);
+
+  const activities = await Promise.all(
+    transactions.map(async (transaction): Promise<Activity | null> => {
+      const transfer = decodeTransfer(transaction.payload);
+      if (!transfer) return null;
+
+      // Without metadata the amount cannot be read, so the transfer is left out.
+      const info = await lookupAsset(transfer.asset, transfer.isFungibleAsset);
+      if (!info) return null;
+      const { decimals } = info;
+      const to = normalizeAddress(transfer.to);
+
+      return {
+        id: `mvm:${network.id}:${transaction.hash}`,
+        chain: "mvm",
+        network: network.id,
+        hash: transaction.hash,
+        direction: to === owner ? "self" : "out",
+        counterparty: transfer.to,
+        amount: formatAmount(transfer.amount, decimals),
+        token: { symbol: info.symbol, address: transfer.asset, decimals },
+        fee: formatAmount(
+          BigInt(transaction.gas_used) * BigInt(transaction.gas_unit_price),
+          network.nativeCurrency.decimals
+        ),
+        status: transaction.success ? "success" : "failed",
+        timestamp: Math.floor(Number(transaction.timestamp) / 1000),
+      };
+    })
+  );
+
+  return activities.filter((activity): activity is Activity => activity !== null);
+};
+
+/**
+ * Incoming coins are found through each CoinStore's deposit events. Deposits of
+ * migrated fungible assets are module events without a handle, which only an
+ * indexer can list per account, so they are not covered here.
+ */
+const getReceivedActivity = async (
+  client: AptosClient,
+  network: NetworkConfig,
+  owner: string,
+  lookupAsset: ReturnType<typeof createAssetLookup>
+): Promise<Activity[]> => {
+  const coinStores = (await getAccountResources(client, owner)).filter((resource) =>
+    resource.type.startsWith(COIN_STORE_PREFIX)
+  );
+
+  const perCoin = await Promise.all(
+    coinStores.map(async (resource) => {
+      const coinType = resource.type.slice(COIN_STORE_PREFIX.length, -1);
+      const counter = Number((resource.data as CoinStoreEvents).deposit_events.counter);
+      if (!counter) return [];
+
+      const info = await lookupAsset(coinType, false);
+      if (!info) return [];
+      const { decimals } = info;
+
+      const events = (await client.getEventsByEventHandle(owner, resource.type, "deposit_events", {
+        start: Math.max(0, counter - MAX_EVENTS_PER_COIN),
+        limit: MAX_EVENTS_PER_COIN,
+      })) as Types.VersionedEvent[];
+      const activities = await Promise.all(
+        events.map(async (event): Promise<Activity | null> => {
+          const transaction = (await client.getTransactionByVersion(
+            BigInt(event.version)
+          )) as Types.UserTransaction;
+          // Transfers to self already show up among the sent transactions.
+          if (!transaction.sender || normalizeAddress(transaction.sender) === owner) return null;
+
+          return {
+            id: `mvm:${network.id}:${transaction.hash}:${coinType}`,
+            chain: "mvm",
+            network: network.id,
+            hash: transaction.hash,
+            direction: "in",
+            counterparty: transaction.sender,
+            amount: formatAmount(event.data.amount, decimals),
+            token: { symbol: info.symbol, address: coinType, decimals },
+            status: "success",
+            timestamp: Math.floor(Number(transaction.timestamp) / 1000),
+          };
+        })
+      );
+      return activities.filter((activity): activity is Activity => activity !== null);
+    })
+  );
+
+  return perCoin.flat();
+};
+
+/** Loads the recent coin and fungible asset transfers of `owner`. */
+export const fetchAptosActivity = async (
+  client: AptosClient,
+  network: NetworkConfig,
+  owner: string
+): Promise<Activity[]> => {
+  const account = normalizeAddress(owner);
+  const lookupAsset = createAssetLookup(client);
+
+  const [sent, received] = await Promise.all([
+    getSentActivity(client, network, account, lookupAsset),
+    getReceivedActivity(client, network, account, lookupAsset),
+  ]);
+
+  return [...sent, ...received].sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,246 @@
+import { AptosClient, HexString } from "aptos";
+import { Token } from "@/types/wallet";
+import { formatAmount } from "@/utils/amount";
+
+interface CoinStoreData {
+  coin: { value: string };
+}
+
+interface CoinInfoData {
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+}
+
+interface FungibleAssetMetadataData {
+  name: string;
+  symbol: string;
+  decimals: number;
+  icon_uri?: string;
+}
+
+interface TypeInfoData {
+  account_address: string;
+  module_name: string;
+  struct_name: string;
+}
+
+interface MoveOption<T> {
+  vec: T[];
+}
+
+export interface AssetInfo {
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI: string;
+}
+
+interface AssetBalance {
+  coinType?: string;
+  metadata?: string;
+  balance: bigint;
+}
+
+export const FA_METADATA_TYPE = "0x1::fungible_asset::Metadata";
+export const APT_METADATA = "0xa";
+export const APTOS_COIN = "0x1::aptos_coin::AptosCoin";
+
+export const isFungibleAssetAddress = (address: string) => /^0x[0-9a-fA-F]+$/.test(address);
+
+export const normalizeAddress = (address: string) => HexString.ensure(address).toShortString().toLowerCase();
+
+const decodeMoveString = (hex: string) => new TextDecoder().decode(new HexString(hex).toUint8Array());
+
+/**
+ * Parses a `0x1::coin::CoinInfo<T>` resource. This is the only place coin
+ * metadata is interpreted; without decimals the balance cannot be read, so
+ * the coin is treated as unknown and null is returned.
+ */
+export const parseCoinInfo = (data: unknown): AssetInfo | null => {
+  const coinInfo = (data ?? {}) as CoinInfoData;
+  if (typeof coinInfo.decimals !== "number") return null;
+
+  return {
+    symbol: coinInfo.symbol ?? "UNKNOWN",
+    name: coinInfo.name ?? "Unknown Token",
+    decimals: coinInfo.decimals,
+    logoURI: "",
+  };
+};
+
+export const getCoinInfo = async (client: AptosClient, coinType: string): Promise<AssetInfo | null> => {
+  try {
+    const creatorAddr = coinType.split("::")[0];
+    const resource = await client.getAccountResource(creatorAddr, `0x1::coin::CoinInfo<${coinType}>`);
+    return parseCoinInfo(resource.data);
+  } catch (err) {
+    console.warn(`Failed to fetch metadata for ${coinType}:`, err);
+    return null;
+  }
+};
+
+export const getFungibleAssetInfo = async (
+  client: AptosClient,
+  metadata: string
+): Promise<AssetInfo | null> => {
+  try {
+    const resource = await client.getAccountResource(metadata, FA_METADATA_TYPE);
+    const info = resource.data as FungibleAssetMetadataData;
+    return {
+      symbol: info.symbol,
+      name: info.name,
+      decimals: info.decimals,
+      logoURI: info.icon_uri ?? "",
+    };
+  } catch (err) {
+    console.warn(`Failed to fetch fungible asset metadata for ${metadata}:`, err);
+    return null;
+  }
+};
+
+const getPairedMetadata = async (client: AptosClient, coinType: string): Promise<string | null> => {
+  try {
+    const [paired] = await client.view({
+      function: "0x1::coin::paired_metadata",
+      type_arguments: [coinType],
+      arguments: [],
+    });
+    const inner = (paired as MoveOption<{ inner: string }>).vec[0]?.inner;
+    return inner ? normalizeAddress(inner) : null;
+  } catch {
+    return null;
+  }
+};
+
+const getPairedCoin = async (client: AptosClient, metadata: string): Promise<string | null> => {
+  try {
+    const [paired] = await client.view({
+      function: "0x1::coin::paired_coin",
+      type_arguments: [],
+      arguments: [metadata],
+    });
+    const typeInfo = (paired as MoveOption<TypeInfoData>).vec[0];
+    if (!typeInfo) return null;
+
+    return [
+      normalizeAddress(typeInfo.account_address),
+      decodeMoveString(typeInfo.module_name),
+      decodeMoveString(typeInfo.struct_name),
+    ].join("::");
+  } catch {
+    return null;
+  }
+};
+
+const getPrimaryStoreBalance = async (
+  client: AptosClient,
+  owner: string,
+  metadata: string
+): Promise<bigint> => {
+  try {
+    const [balance] = await client.view({
+      function: "0x1::primary_fungible_store::balance",
+      type_arguments: [FA_METADATA_TYPE],
+      arguments: [owner, metadata],
+    });
+    return BigInt(balance as string);
+  } catch {
+    return 0n;
+  }
+};
+
+export const getAccountResources = async (client: AptosClient, owner: string) => {
+  try {
+    return await client.getAccountResources(owner);
+  } catch (error) {
+    // Accounts that only ever received fungible assets may not exist on chain yet.
+    if ((error as { status?: number }).status === 404) return [];
+    throw error;
+  }
+};
+
+export interface AptosBalanceOptions {
+  /** Extra Fungible Asset metadata objects to check besides APT and paired coins. */
+  fungibleAssets?: string[];
+}
+
+/**
+ * Returns every coin and primary-store fungible asset held by `owner`, with
+ * coin and FA balances of the same asset merged into a single `Token`.
+ * Has no UI or wallet dependencies, so watch-only views and scripts can call
+ * it with any `AptosClient`.
+ */
+export const fetchAptosTokenBalances = async (
+  client: AptosClient,
+  owner: string,
+  { fungibleAssets = [] }: AptosBalanceOptions = {}
+): Promise<Token[]> => {
+  const resources = await getAccountResources(client, owner);
+
+  const assets = new Map<string, AssetBalance>();
+  resources
+    .filter((r) => r.type.startsWith("0x1::coin::CoinStore<"))
+    .forEach((resource) => {
+      const coinType = resource.type.match(/<(.+)>/)?.[1] ?? "";
+      const balance = BigInt((resource.data as CoinStoreData).coin.value);
+      assets.set(coinType, { coinType, balance });
+    });
+
+  // Coins migrated to the Fungible Asset standard keep part of their balance
+  // in a primary fungible store under the paired metadata object.
+  const coinTypesByMetadata = new Map<string, string>();
+  await Promise.all(
+    Array.from(assets.keys()).map(async (coinType) => {
+      const metadata = await getPairedMetadata(client, coinType);
+      if (metadata) coinTypesByMetadata.set(metadata, coinType);
+    })
+  );
+
+  const candidates = new Set([
+    normalizeAddress(APT_METADATA),
+    ...fungibleAssets.map(normalizeAddress),
+    ...coinTypesByMetadata.keys(),
+  ]);
+
+  await Promise.all(
+    Array.from(candidates).map(async (metadata) => {
+      const balance = await getPrimaryStoreBalance(client, owner, metadata);
+      if (balance === 0n) return;
+
+      const coinType = coinTypesByMetadata.get(metadata) ?? (await getPairedCoin(client, metadata));
+      const key = coinType ?? metadata;
+      const existing = assets.get(key);
+      assets.set(key, {
+        coinType: coinType ?? undefined,
+        metadata,
+        balance: (existing?.balance ?? 0n) + balance,
+      });
+    })
+  );
+
+  const tokens = await Promise.all(
+    Array.from(assets.entries()).map(async ([key, asset]): Promise<Token | null> => {
+      const info =
+        (asset.coinType && (await getCoinInfo(client, asset.coinType))) ||
+        (asset.metadata && (await getFungibleAssetInfo(client, asset.metadata)));
+      // Without metadata the decimals are unknown, and guessing them would misstate
+      // the balance and what a transfer sends. Such assets are left out.
+      if (!info) return null;
+
+      return {
+        id: key,
+        symbol: info.symbol,
+        name: info.name,
+        balance: formatAmount(asset.balance, info.decimals),
+        rawBalance: asset.balance.toString(),
+        decimals: info.decimals,
+        address: key,
+        chain: "mvm",
+        logoURI: info.logoURI,
+        priceUSD: "0",
+      };
+    })
+  );
+  return tokens.filter((token): token is Token => token !== null);
+};
@@ -0,0 +1,74 @@
+// Explanations for the aborts a plain transfer can run into, keyed by abort name.
+const ABORT_EXPLANATIONS: Record<string, string> = {
+  ECOIN_STORE_NOT_PUBLISHED:
+    "The recipient has not registered this coin yet, so it can not receive it.",
+  ECOIN_INFO_NOT_PUBLISHED: "This coin type does not exist on the selected network.",
+  EINSUFFICIENT_BALANCE: "Your balance is too low to send this amount.",
+  EFROZEN: "This coin store is frozen and can not send or receive.",
+  ESTORE_IS_FROZEN: "This fungible asset store is frozen and can not send or receive.",
+  EACCOUNT_DOES_NOT_ACCEPT_DIRECT_COIN_TRANSFERS:
+    "The recipient has opted out of receiving coins it has not registered.",
+  EACCOUNT_NOT_FOUND: "The recipient account does not exist on the selected network.",
+};
+
+// Older nodes report only the numeric abort code, so map the common ones by module.
+const ABORT_NAMES: Record<string, Record<number, string>> = {
+  coin: {
+    3: "ECOIN_INFO_NOT_PUBLISHED",
+    5: "ECOIN_STORE_NOT_PUBLISHED",
+    6: "EINSUFFICIENT_BALANCE",
+    10: "EFROZEN",
+  },
+  aptos_account: {
+    3: "EACCOUNT_DOES_NOT_ACCEPT_DIRECT_COIN_TRANSFERS",
+  },
+  fungible_asset: {
+    3: "ESTORE_IS_FROZEN",
+    4: "EINSUFFICIENT_BALANCE",
+  },
+};
+
+// Statuses raised by the transaction prologue or the VM rather than by a Move abort.
+const VM_STATUS_EXPLANATIONS: Record<string, string> = {
+  INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE: "Your APT balance can not cover the network fee.",
+  OUT_OF_GAS: "The transaction ran out of gas.",
+  SEQUENCE_NUMBER_TOO_OLD: "Another transaction from this account was submitted first; try again.",
+  TRANSACTION_EXPIRED: "The transaction expired before it could be executed.",
+};
+
+const MOVE_ABORT = /Move abort in 0x[0-9a-f]+::(\w+): (?:(\w+)\()?(0x[0-9a-f]+)\)?(?::\s*(.+))?/i;
+
+const parseAbort = (vmStatus: string) => {
+  const abort = vmStatus.match(MOVE_ABORT);
+  if (!abort) return null;
+
+  const [, module, name, code, description] = abort;
+  // The low 16 bits of an abort code carry the module's reason, the rest its category.
+  const reason = parseInt(code, 16) & 0xffff;
+  return { module, code, description, abortName: name ?? ABORT_NAMES[module]?.[reason] };
+};
+
+/**
+ * Turns a `vm_status` such as
+ * "Move abort in 0x1::coin: ECOIN_STORE_NOT_PUBLISHED(0x60005): ..." into a
+ * sentence a user can act on. Unknown statuses are returned unchanged.
+ */
+export const explainAptosVmStatus = (vmStatus: string): string => {
+  const abort = parseAbort(vmStatus);
+  if (abort) {
+    const { module, code, description, abortName } = abort;
+    return (
+      (abortName && ABORT_EXPLANATIONS[abortName]) ??
+      description ??
+      `The transaction aborted in ${module} with code ${abortName ?? code}.`
+    );
+  }
+
+  const status = Object.keys(VM_STATUS_EXPLANATIONS).find((key) => vmStatus.includes(key));
+  return status ? VM_STATUS_EXPLANATIONS[status] : vmStatus;
+};
+
+/** Whether a failed `vm_status` means the sender can not cover the amount or the fee. */
+export const isInsufficientBalanceStatus = (vmStatus: string): boolean =>
+  parseAbort(vmStatus)?.abortName === "EINSUFFICIENT_BALANCE" ||
+  vmStatus.includes("INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE");
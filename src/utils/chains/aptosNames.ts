@@ -0,0 +1,56 @@
+import { AptosClient } from "aptos";
+import { NetworkProfile } from "@/types/network";
+
+// Aptos Names Service router, which fronts both v1 and v2 registrations.
+const ANS_CONTRACTS: Partial<Record<NetworkProfile, string>> = {
+  mainnet: "0x867ed1f6bf916171b1de3ee92849b8978b7d1b9e0a8cc982a3d19d535dfd9c0c",
+  testnet: "0x5f8fd2347449685cf41d4db97926ec3a096eaf381332be4f1318ad4d16a8497c",
+};
+
+interface MoveOption<T> {
+  vec: T[];
+}
+
+const parseName = (name: string) => {
+  const labels = name.trim().toLowerCase().replace(/\.apt$/, "").split(".");
+  if (labels.length > 2 || labels.some((label) => !label)) return null;
+  return labels.length === 2
+    ? { domain: labels[1], subdomain: labels[0] }
+    : { domain: labels[0], subdomain: undefined };
+};
+
+/** Resolves an .apt name to its target address. */
+export const resolveAptosName = async (
+  client: AptosClient,
+  profile: NetworkProfile,
+  name: string
+): Promise<string | null> => {
+  const contract = ANS_CONTRACTS[profile];
+  const parsed = parseName(name);
+  if (!contract || !parsed) return null;
+
+  const [target] = (await client.view({
+    function: `${contract}::router::get_target_addr`,
+    type_arguments: [],
+    arguments: [parsed.domain, { vec: parsed.subdomain ? [parsed.subdomain] : [] }],
+  })) as [MoveOption<string>];
+  return target.vec[0] ?? null;
+};
+
+/** Finds the primary .apt name an account has set. */
+export const lookupAptosName = async (
+  client: AptosClient,
+  profile: NetworkProfile,
+  address: string
+): Promise<string | null> => {
+  const contract = ANS_CONTRACTS[profile];
+  if (!contract) return null;
+
+  const [subdomain, domain] = (await client.view({
+    function: `${contract}::router::get_primary_name`,
+    type_arguments: [],
+    arguments: [address],
+  })) as [MoveOption<string>, MoveOption<string>];
+  if (!domain.vec[0]) return null;
+  return [subdomain.vec[0], domain.vec[0], "apt"].filter(Boolean).join(".");
+};
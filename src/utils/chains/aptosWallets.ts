@@ -0,0 +1,169 @@
+import { Types } from "aptos";
+import { PetraWallet, StandardWallet } from "@/types/providers";
+import { createWalletStore } from "./walletStore";
+import { hasFeatures, onStandardWallet, registerStandardWallet } from "./walletStandard";
+
+export interface AptosAccount {
+  address: string;
+  publicKey?: string;
+}
+
+/** What the Aptos adapter needs from a wallet, whichever way it was discovered. */
+export interface AptosSigner {
+  connect: () => Promise<AptosAccount>;
+  disconnect: () => Promise<void>;
+  getAccount: () => Promise<AptosAccount | null>;
+  // Resolves with the submitted transaction hash.
+  signAndSubmitTransaction: (payload: Types.EntryFunctionPayload) => Promise<string>;
+  onAccountChange: (listener: (address: string | null) => void) => () => void;
+  onNetworkChange: (listener: () => void) => () => void;
+}
+
+// AIP-62 hands back SDK objects; both stringify to their 0x-hex form.
+interface StandardAccountInfo {
+  address: { toString: () => string };
+  publicKey: { toString: () => string };
+}
+
+type UserResponse<T> = { status: "Approved"; args: T } | { status: "Rejected" };
+
+interface StandardAptosFeatures {
+  "aptos:connect": {
+    connect: (silent?: boolean) => Promise<UserResponse<StandardAccountInfo>>;
+  };
+  "aptos:disconnect": {
+    disconnect: () => Promise<void>;
+  };
+  "aptos:account": {
+    account: () => Promise<StandardAccountInfo>;
+  };
+  "aptos:signAndSubmitTransaction": {
+    version: string;
+    signAndSubmitTransaction: (input: {
+      payload: {
+        function: string;
+        typeArguments: string[];
+        functionArguments: unknown[];
+      };
+    }) => Promise<UserResponse<{ hash: string }>>;
+  };
+  "aptos:onAccountChange"?: {
+    onAccountChange: (callback: (account: StandardAccountInfo | null) => void) => Promise<void>;
+  };
+  "aptos:onNetworkChange"?: {
+    onNetworkChange: (callback: (network: unknown) => void) => Promise<void>;
+  };
+}
+
+const REQUIRED_FEATURES = [
+  "aptos:connect",
+  "aptos:disconnect",
+  "aptos:account",
+  "aptos:signAndSubmitTransaction",
+];
+
+export const mvmWallets = createWalletStore<AptosSigner>("multi-wallet:mvm-wallet");
+
+const approved = <T>(response: UserResponse<T>): T => {
+  if (response.status !== "Approved") throw new Error("Request rejected in wallet");
+  return response.args;
+};
+
+const toAptosAccount = (info: StandardAccountInfo): AptosAccount => ({
+  address: info.address.toString(),
+  publicKey: info.publicKey.toString(),
+});
+
+/**
+ * Wallet listeners can not be removed on either interface, so every
+ * subscription gets a mute switch instead.
+ */
+const mutable = <T extends unknown[]>(listener: (...args: T) => void) => {
+  let active = true;
+  return {
+    listener: (...args: T) => {
+      if (active) listener(...args);
+    },
+    mute: () => {
+      active = false;
+    },
+  };
+};
+
+const createStandardSigner = (wallet: StandardWallet): AptosSigner => {
+  const features = wallet.features as unknown as StandardAptosFeatures;
+
+  return {
+    connect: async () => toAptosAccount(approved(await features["aptos:connect"].connect())),
+    disconnect: () => features["aptos:disconnect"].disconnect(),
+    getAccount: async () => {
+      if (!wallet.accounts.length) return null;
+      return toAptosAccount(await features["aptos:account"].account());
+    },
+    signAndSubmitTransaction: async (payload) => {
+      const { hash } = approved(
+        await features["aptos:signAndSubmitTransaction"].signAndSubmitTransaction({
+          payload: {
+            function: payload.function,
+            typeArguments: payload.type_arguments,
+            functionArguments: payload.arguments,
+          },
+        })
+      );
+      return hash;
+    },
+    onAccountChange: (listener) => {
+      const { listener: handler, mute } = mutable((account: StandardAccountInfo | null) =>
+        listener(account ? account.address.toString() : null)
+      );
+      features["aptos:onAccountChange"]?.onAccountChange(handler);
+      return mute;
+    },
+    onNetworkChange: (listener) => {
+      const { listener: handler, mute } = mutable(() => listener());
+      features["aptos:onNetworkChange"]?.onNetworkChange(handler);
+      return mute;
+    },
+  };
+};
+
+const createLegacySigner = (petra: PetraWallet): AptosSigner => ({
+  connect: async () => {
+    await petra.connect();
+    return petra.account();
+  },
+  disconnect: () => petra.disconnect(),
+  getAccount: async () => ((await petra.isConnected()) ? petra.account() : null),
+  signAndSubmitTransaction: async (payload) => {
+    const { hash } = await petra.signAndSubmitTransaction({
+      payload: { type: "entry_function_payload", ...payload },
+    });
+    return hash;
+  },
+  onAccountChange: (listener) => {
+    const { listener: handler, mute } = mutable((address: string) => listener(address || null));
+    petra.onAccountChange(handler);
+    return mute;
+  },
+  onNetworkChange: (listener) => {
+    const { listener: handler, mute } = mutable(() => listener());
+    petra.onNetworkChange(handler);
+    return mute;
+  },
+});
+
+/** Starts AIP-62 wallet discovery, falling back to a legacy `window.petra` injection. */
+export const discoverAptosWallets = (): void => {
+  if (typeof window === "undefined") return;
+
+  onStandardWallet((wallet) => {
+    const supportsAptos = wallet.chains.some((chain) => chain.startsWith("aptos:"));
+    if (!supportsAptos || !hasFeatures(wallet, REQUIRED_FEATURES)) return;
+
+    registerStandardWallet(mvmWallets, wallet, createStandardSigner(wallet));
+  });
+
+  if (window.petra) {
+    mvmWallets.registerLegacy("Petra", createLegacySigner(window.petra));
+  }
+};
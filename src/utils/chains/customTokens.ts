@@ -0,0 +1,56 @@
+const STORAGE_KEY = "multi-wallet:custom-tokens";
+
+// Contract addresses the user added by hand, keyed by "<chain>:<network id>", where the
+// network id is `NetworkConfig.id` (e.g. "evm:base"), not the chain id.
+type CustomTokenStore = Record<string, string[]>;
+
+const storeKey = (chain: string, networkId: string) => `${chain}:${networkId}`;
+
+const loadStore = (): CustomTokenStore => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn("Failed to load custom tokens:", error);
+    return {};
+  }
+};
+
+const saveStore = (store: CustomTokenStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.warn("Failed to persist custom tokens:", error);
+  }
+};
+
+export const getCustomTokens = (chain: string, networkId: string): string[] => {
+  return loadStore()[storeKey(chain, networkId)] ?? [];
+};
+
+export const addCustomToken = (
+  chain: string,
+  networkId: string,
+  address: string
+): void => {
+  const store = loadStore();
+  const key = storeKey(chain, networkId);
+  const existing = store[key] ?? [];
+  if (existing.some((entry) => entry.toLowerCase() === address.toLowerCase())) return;
+
+  saveStore({ ...store, [key]: [...existing, address] });
+};
+
+export const removeCustomToken = (
+  chain: string,
+  networkId: string,
+  address: string
+): void => {
+  const store = loadStore();
+  const key = storeKey(chain, networkId);
+
+  saveStore({
+    ...store,
+    [key]: (store[key] ?? []).filter((entry) => entry.toLowerCase() !== address.toLowerCase()),
+  });
+};
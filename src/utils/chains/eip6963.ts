@@ -0,0 +1,25 @@
+import { EIP6963ProviderDetail, EthereumProvider } from "@/types/providers";
+import { createWalletStore } from "./walletStore";
+
+export const evmWallets = createWalletStore<EthereumProvider>("multi-wallet:evm-wallet");
+
+const handleAnnouncement = (event: CustomEvent<EIP6963ProviderDetail>) => {
+  const { info, provider } = event.detail;
+  // The rdns stays the same across page loads, unlike the per-session uuid.
+  evmWallets.register({ id: info.rdns, name: info.name, icon: info.icon, provider });
+};
+
+/** Starts EIP-6963 discovery; wallets answer the request synchronously. */
+export const discoverEVMWallets = (): void => {
+  if (typeof window === "undefined") return;
+
+  window.addEventListener("eip6963:announceProvider", handleAnnouncement);
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+
+  if (window.ethereum) {
+    evmWallets.registerLegacy(
+      window.ethereum.isMetaMask ? "MetaMask" : "Browser Wallet",
+      window.ethereum
+    );
+  }
+};
@@ -0,0 +1,151 @@
+import { ethers } from "ethers";
+
+export const ERC20_ABI = [
+  "function transfer(address to, uint amount) returns (bool)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function name() view returns (string)",
+];
+
+// Multicall3 is deployed at the same address on most EVM networks.
+// https://github.com/mds1/multicall
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+export interface ERC20Snapshot {
+  address: string;
+  balance: bigint;
+  decimals: number;
+  symbol: string;
+  name: string;
+}
+
+interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+type ERC20Read = "balanceOf" | "decimals" | "symbol" | "name";
+
+const READS: ERC20Read[] = ["balanceOf", "decimals", "symbol", "name"];
+
+const multicallSupport = new Map<number, boolean>();
+
+const hasMulticall3 = async (provider: ethers.Provider, chainId: number): Promise<boolean> => {
+  const cached = multicallSupport.get(chainId);
+  if (cached !== undefined) return cached;
+
+  try {
+    const code = await provider.getCode(MULTICALL3_ADDRESS);
+    multicallSupport.set(chainId, code !== "0x");
+  } catch (error) {
+    console.warn(`Could not check Multicall3 on chain ${chainId}:`, error);
+    return false;
+  }
+  return multicallSupport.get(chainId)!;
+};
+
+const decodeResult = <T>(read: ERC20Read, result: CallResult | undefined, fallback: T): T => {
+  if (!result?.success || result.returnData === "0x") return fallback;
+  try {
+    return erc20Interface.decodeFunctionResult(read, result.returnData)[0] as T;
+  } catch {
+    return fallback;
+  }
+};
+
+// Amounts cannot be read without decimals, so such contracts get no snapshot.
+const toSnapshot = (address: string, results: (CallResult | undefined)[]): ERC20Snapshot | null => {
+  const decimals = decodeResult<bigint | null>("decimals", results[1], null);
+  if (decimals === null) return null;
+
+  return {
+    address,
+    balance: decodeResult<bigint>("balanceOf", results[0], 0n),
+    decimals: Number(decimals),
+    symbol: decodeResult("symbol", results[2], "UNKNOWN"),
+    name: decodeResult("name", results[3], "Unknown Token"),
+  };
+};
+
+const isSnapshot = (snapshot: ERC20Snapshot | null): snapshot is ERC20Snapshot =>
+  snapshot !== null;
+
+const readViaMulticall = async (
+  provider: ethers.Provider,
+  owner: string,
+  contracts: string[]
+): Promise<ERC20Snapshot[]> => {
+  const calls = contracts.flatMap((target) =>
+    READS.map((read) => ({
+      target,
+      allowFailure: true,
+      callData: erc20Interface.encodeFunctionData(read, read === "balanceOf" ? [owner] : []),
+    }))
+  );
+
+  const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const results: CallResult[] = await multicall.aggregate3.staticCall(calls);
+
+  return contracts
+    .map((address, index) =>
+      toSnapshot(address, results.slice(index * READS.length, (index + 1) * READS.length))
+    )
+    .filter(isSnapshot);
+};
+
+const readIndividually = async (
+  provider: ethers.Provider,
+  owner: string,
+  contracts: string[]
+): Promise<ERC20Snapshot[]> => {
+  const snapshots = await Promise.all(
+    contracts.map(async (address) => {
+      const results = await Promise.all(
+        READS.map(async (read): Promise<CallResult> => {
+          try {
+            const returnData = await provider.call({
+              to: address,
+              data: erc20Interface.encodeFunctionData(read, read === "balanceOf" ? [owner] : []),
+            });
+            return { success: true, returnData };
+          } catch {
+            return { success: false, returnData: "0x" };
+          }
+        })
+      );
+      return toSnapshot(address, results);
+    })
+  );
+  return snapshots.filter(isSnapshot);
+};
+
+/**
+ * Reads balance, decimals, symbol and name of every contract for `owner`, leaving out
+ * contracts whose decimals cannot be read. Uses a single Multicall3 `aggregate3` call
+ * where the contract is deployed, and falls back to one `eth_call` per read elsewhere.
+ */
+export const readERC20Snapshots = async (
+  provider: ethers.Provider,
+  chainId: number,
+  owner: string,
+  contracts: string[]
+): Promise<ERC20Snapshot[]> => {
+  if (!contracts.length) return [];
+
+  if (await hasMulticall3(provider, chainId)) {
+    try {
+      return await readViaMulticall(provider, owner, contracts);
+    } catch (error) {
+      console.warn("Multicall3 batch failed, falling back to individual reads:", error);
+    }
+  }
+
+  return readIndividually(provider, owner, contracts);
+};
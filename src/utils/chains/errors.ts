@@ -0,0 +1,89 @@
+import { WalletError } from "@/types/errors";
+
+// EIP-1193 provider error codes, also used by Phantom and Petra.
+const USER_REJECTED_CODE = 4001;
+const UNRECOGNIZED_CHAIN_CODE = 4902;
+const DISCONNECTED_CODES = [4900, 4901];
+// JSON-RPC codes for a node that is overloaded or refusing requests.
+const RPC_UNAVAILABLE_CODES = [-32005, 429, 502, 503, 504];
+
+const USER_REJECTED =
+  /user rejected|rejected the request|request rejected|user denied|user declined|user cancel/i;
+const INSUFFICIENT_FUNDS =
+  /insufficient (funds|lamports|balance)|no record of a prior credit|exceeds balance/i;
+const RPC_UNAVAILABLE =
+  /failed to fetch|networkerror|network request failed|timed? ?out|too many requests|bad gateway|service unavailable/i;
+const RPC_ERROR_CODES = ["NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT"];
+const NETWORK_MISMATCH = /chain ?id mismatch|wrong network|unsupported chain|network mismatch/i;
+
+interface ErrorShape {
+  // EIP-1193 numeric codes, or ethers' string codes such as "ACTION_REJECTED".
+  code?: number | string;
+  // HTTP status, set by the Aptos SDK's ApiError.
+  status?: number;
+  message?: string;
+  shortMessage?: string;
+  // ethers keeps the wallet's original error here.
+  info?: { error?: ErrorShape };
+  error?: ErrorShape;
+  cause?: unknown;
+}
+
+const collectShapes = (error: unknown): ErrorShape[] => {
+  const shapes: ErrorShape[] = [];
+  let current: unknown = error;
+  // Wallets and libraries wrap errors a few levels deep; walk the chain of causes.
+  while (current && typeof current === "object" && shapes.length < 5) {
+    const shape = current as ErrorShape;
+    shapes.push(shape);
+    current = shape.info?.error ?? shape.error ?? shape.cause;
+  }
+  return shapes;
+};
+
+/**
+ * Classifies whatever a wallet, RPC client or SDK threw into a `WalletError`.
+ * Unrecognised errors become "unknown" and keep the original as `cause`.
+ */
+export const toWalletError = (error: unknown): WalletError => {
+  const shapes = collectShapes(error);
+  const codes = shapes.map((shape) => shape.code);
+  const statuses = shapes.map((shape) => shape.status);
+  const text = [
+    typeof error === "string" ? error : "",
+    ...shapes.map((shape) => `${shape.shortMessage ?? ""} ${shape.message ?? ""}`),
+  ].join(" ");
+  const message =
+    shapes[0]?.shortMessage ??
+    shapes[0]?.message ??
+    (typeof error === "string" ? error : "Unknown error");
+
+  if (
+    codes.includes(USER_REJECTED_CODE) ||
+    codes.includes("ACTION_REJECTED") ||
+    USER_REJECTED.test(text)
+  ) {
+    return { code: "user_rejected", message: "The request was rejected in the wallet." };
+  }
+  if (codes.includes("INSUFFICIENT_FUNDS") || INSUFFICIENT_FUNDS.test(text)) {
+    return {
+      code: "insufficient_funds",
+      message: "Your balance is too low for this transfer and its fee.",
+    };
+  }
+  if (codes.includes(UNRECOGNIZED_CHAIN_CODE) || NETWORK_MISMATCH.test(text)) {
+    return { code: "network_mismatch", message };
+  }
+  if (
+    codes.some((code) => RPC_ERROR_CODES.includes(String(code))) ||
+    codes.some((code) => [...DISCONNECTED_CODES, ...RPC_UNAVAILABLE_CODES].includes(Number(code))) ||
+    statuses.some((status) => status !== undefined && (status === 429 || status >= 500)) ||
+    RPC_UNAVAILABLE.test(text)
+  ) {
+    return {
+      code: "rpc_unavailable",
+      message: "The network node could not be reached. Try again shortly.",
+    };
+  }
+  return { code: "unknown", message, cause: error };
+};
@@ -0,0 +1,382 @@
+import { ethers } from "ethers";
+import {
+  ChainAdapter,
+  ChainAdapterEvents,
+  FeeEstimate,
+  NameService,
+  Token,
+  TransferParams,
+  TransferResult,
+} from "@/types/wallet";
+import { EthereumProvider } from "@/types/providers";
+import { NetworkConfig, NetworkProfile } from "@/types/network";
+import { TransactionStatus } from "@/types/transaction";
+import { formatAmount, parseAmount } from "@/utils/amount";
+import { buildExplorerUrl, getActiveNetwork, getNetwork } from "./networks";
+import { EVM_TOKENS } from "./tokens";
+import { getCustomTokens } from "./customTokens";
+import { ERC20_ABI, readERC20Snapshots } from "./erc20";
+import { discoverEVMWallets, evmWallets } from "./eip6963";
+import { describeEVMActivityWindow, fetchEVMActivity } from "./evmActivity";
+import { validateEVMAddress } from "./addressValidation";
+import { toWalletError } from "./errors";
+
+export { ERC20_ABI } from "./erc20";
+
+discoverEVMWallets();
+
+const getEthereumProvider = (): EthereumProvider | undefined => evmWallets.getProvider();
+
+const rpcProviders = new Map<string, ethers.JsonRpcProvider>();
+
+export const getRpcProvider = (
+  network: NetworkConfig = getActiveNetwork("evm")
+): ethers.JsonRpcProvider => {
+  let provider = rpcProviders.get(network.rpcUrl);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+    rpcProviders.set(network.rpcUrl, provider);
+  }
+  return provider;
+};
+
+const isNativeToken = (tokenAddress: string) => !tokenAddress || tokenAddress === "native";
+
+export const getEVMBalance = async (address: string): Promise<string> => {
+  try {
+    const provider = getRpcProvider();
+    const balance = await provider.getBalance(address);
+    return formatAmount(balance, 18);
+  } catch (error) {
+    console.error("Error getting EVM balance:", error);
+    return "0";
+  }
+};
+
+export const getERC20Balance = async (
+  contractAddress: string,
+  walletAddress: string
+): Promise<string> => {
+  try {
+    const provider = getRpcProvider();
+    const { chainId } = getActiveNetwork("evm");
+    const [snapshot] = await readERC20Snapshots(provider, chainId, walletAddress, [
+      contractAddress,
+    ]);
+    return snapshot ? formatAmount(snapshot.balance, snapshot.decimals) : "0";
+  } catch (error) {
+    console.error("Error getting ERC20 balance:", error);
+    return "0";
+  }
+};
+
+const getERC20TokenBalances = async (
+  provider: ethers.JsonRpcProvider,
+  network: NetworkConfig,
+  accountAddress: string
+): Promise<Token[]> => {
+  const { chainId } = network;
+  const contracts = new Set(
+    [
+      ...(EVM_TOKENS[chainId] ?? []).map((token) => token.address),
+      ...getCustomTokens("evm", network.id),
+    ]
+      .filter((address) => ethers.isAddress(address))
+      .map((address) => ethers.getAddress(address))
+  );
+
+  const snapshots = await readERC20Snapshots(
+    provider,
+    chainId,
+    accountAddress,
+    Array.from(contracts)
+  );
+
+  return snapshots
+    .filter((snapshot) => snapshot.balance > 0n)
+    .map((snapshot) => ({
+      id: snapshot.address,
+      symbol: snapshot.symbol,
+      name: snapshot.name,
+      balance: formatAmount(snapshot.balance, snapshot.decimals),
+      rawBalance: snapshot.balance.toString(),
+      decimals: snapshot.decimals,
+      address: snapshot.address,
+      chain: "evm",
+      network: network.id,
+      logoURI: "",
+      priceUSD: "0",
+    }));
+};
+
+export const getEVMTokenBalances = async (accountAddress: string): Promise<Token[]> => {
+  const network = getActiveNetwork("evm");
+  const { nativeCurrency } = network;
+  const provider = getRpcProvider(network);
+
+  const [nativeBalance, erc20Tokens] = await Promise.all([
+    provider.getBalance(accountAddress),
+    getERC20TokenBalances(provider, network, accountAddress),
+  ]);
+
+  const nativeToken: Token = {
+    id: "native",
+    symbol: nativeCurrency.symbol,
+    name: nativeCurrency.name,
+    balance: formatAmount(nativeBalance, nativeCurrency.decimals),
+    rawBalance: nativeBalance.toString(),
+    decimals: nativeCurrency.decimals,
+    address: "native",
+    chain: "evm",
+    network: network.id,
+    logoURI: "",
+    priceUSD: "0",
+  };
+
+  return [nativeToken, ...erc20Tokens];
+};
+
+// A declined switch is the user's choice; anything else leaves the wallet on the wrong network.
+const switchFailed = (error: unknown, message: string, network: NetworkConfig): TransferResult => {
+  const walletError = toWalletError(error);
+  return {
+    ok: false,
+    error:
+      walletError.code === "user_rejected"
+        ? walletError
+        : { code: "network_mismatch", message, expectedNetwork: network.name },
+  };
+};
+
+export const transferERC20 = async (
+  tokenAddress: string,
+  toAddress: string,
+  amount: string,
+  networkId?: string
+): Promise<TransferResult> => {
+  const ethereum = getEthereumProvider();
+  if (!ethereum) {
+    return {
+      ok: false,
+      error: {
+        code: "wallet_unavailable",
+        message: "No Ethereum wallet found. Please install one, e.g. MetaMask.",
+      },
+    };
+  }
+
+  const network = getNetwork("evm", networkId);
+  const chainIdHex = `0x${network.chainId.toString(16)}`;
+
+  try {
+    await ethereum.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: chainIdHex }],
+    });
+  } catch (switchError) {
+    if ((switchError as { code?: number }).code !== 4902) {
+      return switchFailed(switchError, `Please switch to ${network.name} manually.`, network);
+    }
+
+    try {
+      await ethereum.request({
+        method: "wallet_addEthereumChain",
+        params: [
+          {
+            chainId: chainIdHex,
+            chainName: network.name,
+            nativeCurrency: network.nativeCurrency,
+            rpcUrls: [network.rpcUrl],
+            blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+          },
+        ],
+      });
+
+      await ethereum.request({
+        method: "wallet_switchEthereumChain",
+        params: [{ chainId: chainIdHex }],
+      });
+    } catch (addError) {
+      return switchFailed(addError, `Could not switch to ${network.name}`, network);
+    }
+  }
+
+  try {
+    const provider = new ethers.BrowserProvider(ethereum);
+    const signer = await provider.getSigner();
+
+    let tx: ethers.TransactionResponse;
+    if (!isNativeToken(tokenAddress)) {
+      const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, signer);
+      const decimals = await tokenContract.decimals();
+      const amountInWei = parseAmount(amount, Number(decimals));
+      tx = await tokenContract.transfer(toAddress, amountInWei);
+    } else {
+      const amountInWei = parseAmount(amount, network.nativeCurrency.decimals);
+      tx = await signer.sendTransaction({ to: toAddress, value: amountInWei });
+    }
+
+    return { ok: true, hash: tx.hash, explorerUrl: buildExplorerUrl(network, `tx/${tx.hash}`) };
+  } catch (error) {
+    return { ok: false, error: toWalletError(error) };
+  }
+};
+
+export const estimateEVMFee = async ({
+  token,
+  toAddress,
+  amount,
+}: TransferParams): Promise<FeeEstimate> => {
+  const network = getNetwork("evm", token.network);
+  const provider = getRpcProvider(network);
+  const ethereum = getEthereumProvider();
+  const [from] = ethereum
+    ? ((await ethereum.request({ method: "eth_accounts" })) as string[])
+    : [];
+
+  let gasLimit: bigint;
+  if (!isNativeToken(token.address)) {
+    const tokenContract = new ethers.Contract(token.address, ERC20_ABI, provider);
+    gasLimit = await tokenContract.transfer.estimateGas(
+      toAddress,
+      parseAmount(amount, token.decimals),
+      { from }
+    );
+  } else {
+    gasLimit = await provider.estimateGas({
+      from,
+      to: toAddress,
+      value: parseAmount(amount, network.nativeCurrency.decimals),
+    });
+  }
+
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+  return {
+    amount: formatAmount(gasLimit * gasPrice, network.nativeCurrency.decimals),
+    symbol: network.nativeCurrency.symbol,
+  };
+};
+
+// ENS lives on Ethereum itself; L2 and sidechain profiles resolve through the matching L1.
+const ENS_NETWORKS: Partial<Record<NetworkProfile, string>> = {
+  mainnet: "ethereum",
+  testnet: "sepolia",
+};
+
+const getENSProvider = (): ethers.JsonRpcProvider | null => {
+  const networkId = ENS_NETWORKS[getActiveNetwork("evm").profile];
+  return networkId ? getRpcProvider(getNetwork("evm", networkId)) : null;
+};
+
+/**
+ * Reads the address `name` holds for the active network. Off the ENS network itself this
+ * is the ENSIP-11 record, which ethers derives from the chain id as `0x80000000 | chainId`;
+ * the Ethereum address is never used in its place, since the owner may not control it there.
+ */
+const resolveENSName = async (name: string): Promise<string | null> => {
+  const provider = getENSProvider();
+  const resolver = provider && (await provider.getResolver(name));
+  if (!resolver) return null;
+
+  const network = getActiveNetwork("evm");
+  if (ENS_NETWORKS[network.profile] === network.id) return resolver.getAddress();
+
+  const address = await resolver.getAddress(network.chainId);
+  if (!address && (await resolver.getAddress())) {
+    throw new Error(`It has no address set for ${network.name}, only for Ethereum.`);
+  }
+  return address;
+};
+
+export const ensNames: NameService = {
+  isName: (input) => /^[^\s.]+(\.[^\s.]+)*\.[a-z]{2,}$/i.test(input.trim()),
+  resolve: (name) => resolveENSName(name.trim()),
+  // Only names whose record for the active network points back at the address are shown.
+  lookup: async (address) => {
+    const name = await getENSProvider()?.lookupAddress(address);
+    if (!name) return null;
+    const resolved = await resolveENSName(name).catch(() => null);
+    return resolved && resolved.toLowerCase() === address.toLowerCase() ? name : null;
+  },
+};
+
+// Used when the RPC does not support the "finalized" block tag.
+const FINALITY_CONFIRMATIONS = 12;
+
+export const getEVMTransactionStatus = async (
+  hash: string,
+  networkId?: string
+): Promise<TransactionStatus> => {
+  const provider = getRpcProvider(getNetwork("evm", networkId));
+  const receipt = await provider.getTransactionReceipt(hash);
+  if (!receipt) return "submitted";
+  if (receipt.status === 0) return "failed";
+
+  try {
+    const finalized = await provider.getBlock("finalized");
+    if (finalized) return finalized.number >= receipt.blockNumber ? "finalized" : "confirmed";
+  } catch (error) {
+    console.warn("Finalized block tag not supported, counting confirmations:", error);
+  }
+  return (await receipt.confirmations()) >= FINALITY_CONFIRMATIONS ? "finalized" : "confirmed";
+};
+
+const bindProviderEvents = (
+  ethereum: EthereumProvider | undefined,
+  { onAccountChange, onNetworkChange }: ChainAdapterEvents
+): (() => void) => {
+  if (!ethereum) return () => {};
+
+  const handleAccountsChanged = (accounts: string[]) => onAccountChange(accounts[0] ?? null);
+  ethereum.on("accountsChanged", handleAccountsChanged);
+  ethereum.on("chainChanged", onNetworkChange);
+
+  return () => {
+    ethereum.removeListener("accountsChanged", handleAccountsChanged);
+    ethereum.removeListener("chainChanged", onNetworkChange);
+  };
+};
+
+export const evmAdapter: ChainAdapter = {
+  id: "evm",
+  displayName: "Ethereum",
+  walletName: "MetaMask",
+  installUrl: "https://metamask.io/download/",
+  wallets: evmWallets,
+  names: ensNames,
+  isInstalled: () => !!getEthereumProvider(),
+  connect: async () => {
+    const ethereum = getEthereumProvider();
+    if (!ethereum) throw new Error("No Ethereum wallet available");
+
+    const accounts = (await ethereum.request({ method: "eth_requestAccounts" })) as string[];
+    if (!accounts.length) throw new Error("No Ethereum account authorized");
+    return accounts[0];
+  },
+  // Injected EVM wallets have no programmatic disconnect; forgetting the account is enough.
+  disconnect: async () => {},
+  getConnectedAccount: async () => {
+    const ethereum = getEthereumProvider();
+    if (!ethereum) return null;
+
+    const accounts = (await ethereum.request({ method: "eth_accounts" })) as string[];
+    return accounts[0] ?? null;
+  },
+  subscribe: (events) =>
+    evmWallets.watchProvider((ethereum) => bindProviderEvents(ethereum, events)),
+  getTransactionStatus: getEVMTransactionStatus,
+  getBalances: getEVMTokenBalances,
+  getActivity: (address) => {
+    const network = getActiveNetwork("evm");
+    return fetchEVMActivity(getRpcProvider(network), network, address);
+  },
+  getActivityNotice: () => describeEVMActivityWindow(getActiveNetwork("evm")),
+  validateAddress: validateEVMAddress,
+  estimateFee: estimateEVMFee,
+  transfer: ({ token, toAddress, amount }) =>
+    transferERC20(token.address || "native", toAddress, amount, token.network),
+  explorerUrl: (target, value, networkId) =>
+    buildExplorerUrl(getNetwork("evm", networkId), `${target}/${value}`),
+};
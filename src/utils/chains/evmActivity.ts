@@ -0,0 +1,199 @@
+import { ethers } from "ethers";
+import { Activity, ActivityDirection } from "@/types/activity";
+import { ActivityWindow, NetworkConfig } from "@/types/network";
+import { formatAmount } from "@/utils/amount";
+import { readERC20Snapshots } from "./erc20";
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+const MAX_ACTIVITIES = 50;
+
+const DEFAULT_ACTIVITY_WINDOW: Required<ActivityWindow> = {
+  logLookbackBlocks: 5_000,
+  nativeScanBlocks: 300,
+};
+
+// Full blocks are large, so they are requested a few at a time.
+const NATIVE_SCAN_BATCH = 25;
+
+const getActivityWindow = (network: NetworkConfig): Required<ActivityWindow> => ({
+  ...DEFAULT_ACTIVITY_WINDOW,
+  ...network.activityWindow,
+});
+
+const formatBlocks = (count: number) => count.toLocaleString("en-US");
+
+/** Explains which part of the history `fetchEVMActivity` reads on `network`, for showing next to it. */
+export const describeEVMActivityWindow = (network: NetworkConfig): string => {
+  const { logLookbackBlocks, nativeScanBlocks } = getActivityWindow(network);
+  return (
+    `History is partial: token transfers from the last ${formatBlocks(logLookbackBlocks)} blocks ` +
+    `and native transfers from the last ${formatBlocks(nativeScanBlocks)} blocks only.`
+  );
+};
+
+// Transfer amounts are a single uint256; anything else is not an ERC-20 transfer.
+const decodeTransferAmount = (data: string): bigint | null => {
+  if (ethers.dataLength(data) !== 32) return null;
+  return BigInt(data);
+};
+
+const getDirection = (owner: string, from: string, to: string): ActivityDirection => {
+  if (from === owner && to === owner) return "self";
+  return from === owner ? "out" : "in";
+};
+
+const getTransferLogs = async (
+  provider: ethers.JsonRpcProvider,
+  owner: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<ethers.Log[]> => {
+  const ownerTopic = ethers.zeroPadValue(owner, 32);
+  const [sent, received] = await Promise.all([
+    provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, ownerTopic] }),
+    provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, null, ownerTopic] }),
+  ]);
+
+  // ERC-721 shares the event signature but indexes the token id as a fourth topic, and
+  // non-standard tokens may emit the event without an amount.
+  const unique = new Map<string, ethers.Log>();
+  [...sent, ...received]
+    .filter((log) => log.topics.length === 3 && decodeTransferAmount(log.data) !== null)
+    .forEach((log) => unique.set(`${log.transactionHash}:${log.index}`, log));
+
+  return Array.from(unique.values())
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.index - a.index)
+    .slice(0, MAX_ACTIVITIES);
+};
+
+const getERC20Activity = async (
+  provider: ethers.JsonRpcProvider,
+  network: NetworkConfig,
+  owner: string,
+  latestBlock: number,
+  lookbackBlocks: number
+): Promise<Activity[]> => {
+  const logs = await getTransferLogs(
+    provider,
+    owner,
+    Math.max(0, latestBlock - lookbackBlocks),
+    latestBlock
+  );
+  if (!logs.length) return [];
+
+  const contracts = Array.from(new Set(logs.map((log) => ethers.getAddress(log.address))));
+  const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)));
+  const sentHashes = Array.from(
+    new Set(
+      logs
+        .filter((log) => ethers.getAddress(ethers.dataSlice(log.topics[1], 12)) === owner)
+        .map((log) => log.transactionHash)
+    )
+  );
+
+  const [snapshots, blocks, receipts] = await Promise.all([
+    readERC20Snapshots(provider, network.chainId!, owner, contracts),
+    Promise.all(blockNumbers.map((blockNumber) => provider.getBlock(blockNumber))),
+    Promise.all(sentHashes.map((hash) => provider.getTransactionReceipt(hash))),
+  ]);
+
+  const tokens = new Map(snapshots.map((snapshot) => [ethers.getAddress(snapshot.address), snapshot]));
+  const timestamps = new Map(blocks.map((block, index) => [blockNumbers[index], block?.timestamp ?? 0]));
+  const fees = new Map(receipts.map((receipt, index) => [sentHashes[index], receipt?.fee]));
+
+  // Transfers of tokens without readable decimals are left out, like their balances.
+  const readable = logs.filter((log) => tokens.has(ethers.getAddress(log.address)));
+
+  return readable.map((log) => {
+    const contract = ethers.getAddress(log.address);
+    const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12));
+    const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+    const direction = getDirection(owner, from, to);
+    const token = tokens.get(contract)!;
+    const { decimals } = token;
+    const fee = fees.get(log.transactionHash);
+
+    return {
+      id: `evm:${network.id}:${log.transactionHash}:${log.index}`,
+      chain: "evm",
+      network: network.id,
+      hash: log.transactionHash,
+      direction,
+      counterparty: direction === "in" ? from : to,
+      amount: formatAmount(decodeTransferAmount(log.data)!, decimals),
+      token: { symbol: token.symbol, address: contract, decimals },
+      fee: fee !== undefined ? formatAmount(fee, network.nativeCurrency.decimals) : undefined,
+      // Transfer events are only emitted by transactions that succeeded.
+      status: "success",
+      timestamp: (timestamps.get(log.blockNumber) ?? 0) * 1000,
+    };
+  });
+};
+
+const getNativeActivity = async (
+  provider: ethers.JsonRpcProvider,
+  network: NetworkConfig,
+  owner: string,
+  latestBlock: number,
+  scanBlocks: number
+): Promise<Activity[]> => {
+  const blockNumbers = Array.from(
+    { length: Math.min(scanBlocks, latestBlock + 1) },
+    (_, offset) => latestBlock - offset
+  );
+  const blocks: (ethers.Block | null)[] = [];
+  for (let start = 0; start < blockNumbers.length; start += NATIVE_SCAN_BATCH) {
+    const batch = blockNumbers.slice(start, start + NATIVE_SCAN_BATCH);
+    blocks.push(...(await Promise.all(batch.map((blockNumber) => provider.getBlock(blockNumber, true)))));
+  }
+
+  const matches = blocks.flatMap((block) =>
+    (block?.prefetchedTransactions ?? [])
+      .filter((tx) => tx.value > 0n && (tx.from === owner || tx.to === owner))
+      .map((tx) => ({ tx, timestamp: block!.timestamp }))
+  );
+
+  return Promise.all(
+    matches.map(async ({ tx, timestamp }) => {
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      const direction = getDirection(owner, tx.from, tx.to ?? "");
+      const { decimals, symbol } = network.nativeCurrency;
+
+      return {
+        id: `evm:${network.id}:${tx.hash}`,
+        chain: "evm",
+        network: network.id,
+        hash: tx.hash,
+        direction,
+        counterparty: direction === "in" ? tx.from : tx.to ?? undefined,
+        amount: formatAmount(tx.value, decimals),
+        token: { symbol, address: "native", decimals },
+        fee:
+          direction !== "in" && receipt ? formatAmount(receipt.fee, decimals) : undefined,
+        status: receipt?.status === 0 ? "failed" : "success",
+        timestamp: timestamp * 1000,
+      };
+    })
+  );
+};
+
+/**
+ * Loads recent ERC-20 and native transfers of `owner` on one EVM network. Only the
+ * network's activity window is read, so older transfers are missing.
+ */
+export const fetchEVMActivity = async (
+  provider: ethers.JsonRpcProvider,
+  network: NetworkConfig,
+  owner: string
+): Promise<Activity[]> => {
+  const { logLookbackBlocks, nativeScanBlocks } = getActivityWindow(network);
+  const account = ethers.getAddress(owner);
+  const latestBlock = await provider.getBlockNumber();
+
+  const [erc20, native] = await Promise.all([
+    getERC20Activity(provider, network, account, latestBlock, logLookbackBlocks),
+    getNativeActivity(provider, network, account, latestBlock, nativeScanBlocks),
+  ]);
+
+  return [...erc20, ...native].sort((a, b) => b.timestamp - a.timestamp);
+};
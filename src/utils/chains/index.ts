@@ -0,0 +1,15 @@
+import { registerChainAdapter } from "./registry";
+import { mvmAdapter } from "./mvm";
+import { evmAdapter } from "./evm";
+import { svmAdapter } from "./svm";
+
+registerChainAdapter(mvmAdapter);
+registerChainAdapter(evmAdapter);
+registerChainAdapter(svmAdapter);
+
+export {
+  registerChainAdapter,
+  getChainAdapter,
+  getChainAdapters,
+  getWalletName,
+} from "./registry";
@@ -0,0 +1,414 @@
+import { AptosClient, CoinClient, HexString, TxnBuilderTypes, Types } from "aptos";
+import {
+  BalanceChange,
+  ChainAdapter,
+  FeeEstimate,
+  NameService,
+  Token,
+  TransferParams,
+  TransferResult,
+  TransferSimulation,
+} from "@/types/wallet";
+import { TransactionStatus } from "@/types/transaction";
+import { formatAmount, parseAmount } from "@/utils/amount";
+import { buildExplorerUrl, getActiveNetwork, getNetwork } from "./networks";
+import { APTOS_FA_TOKENS } from "./tokens";
+import {
+  APT_METADATA,
+  APTOS_COIN,
+  FA_METADATA_TYPE,
+  fetchAptosTokenBalances,
+  isFungibleAssetAddress,
+  normalizeAddress,
+} from "./aptosBalances";
+import { explainAptosVmStatus, isInsufficientBalanceStatus } from "./aptosErrors";
+import { toWalletError } from "./errors";
+import { AptosAccount, discoverAptosWallets, mvmWallets } from "./aptosWallets";
+import { fetchAptosActivity } from "./aptosActivity";
+import { validateAptosAddress } from "./addressValidation";
+import { lookupAptosName, resolveAptosName } from "./aptosNames";
+
+discoverAptosWallets();
+
+const clients = new Map<string, AptosClient>();
+
+export const getClient = (networkId?: string): AptosClient => {
+  const { rpcUrl } = getNetwork("mvm", networkId);
+  let client = clients.get(rpcUrl);
+  if (!client) {
+    client = new AptosClient(rpcUrl);
+    clients.set(rpcUrl, client);
+  }
+  return client;
+};
+
+const getAptosWallet = () => mvmWallets.getProvider();
+
+export const getMVMTokenBalance = async (walletAddress: string): Promise<string> => {
+  const coinClient = new CoinClient(getClient());
+
+  try {
+    const balance = await coinClient.checkBalance(walletAddress);
+    return balance.toString();
+  } catch (error) {
+    console.error("Error fetching MVM balance:", error);
+    return "0";
+  }
+};
+
+export const getAllMVMTokenBalances = async (
+  walletAddress: string
+): Promise<Token[]> => {
+  const network = getActiveNetwork("mvm");
+  const fungibleAssets = (APTOS_FA_TOKENS[network.profile] ?? []).map((token) => token.address);
+  const tokens = await fetchAptosTokenBalances(getClient(network.id), walletAddress, {
+    fungibleAssets,
+  });
+  return tokens.map((token) => ({ ...token, network: network.id }));
+};
+
+const buildTransferPayload = (
+  token: Token,
+  toAddress: string,
+  amount: string
+): Types.EntryFunctionPayload => {
+  const amountInSmallestUnit = parseAmount(amount, token.decimals).toString();
+
+  if (token.address && isFungibleAssetAddress(token.address)) {
+    return {
+      function: "0x1::primary_fungible_store::transfer",
+      type_arguments: [FA_METADATA_TYPE],
+      arguments: [token.address, toAddress, amountInSmallestUnit],
+    };
+  }
+
+  let typeTag = token.address;
+  if (!typeTag || !typeTag.includes("::")) typeTag = APTOS_COIN;
+
+  return {
+    function: "0x1::coin::transfer",
+    type_arguments: [typeTag],
+    arguments: [toAddress, amountInSmallestUnit],
+  };
+};
+
+export const transferMVMToken = async (
+  token: Token,
+  toAddress: string,
+  amount: string
+): Promise<TransferResult> => {
+  const wallet = getAptosWallet();
+  if (!wallet) {
+    return {
+      ok: false,
+      error: { code: "wallet_unavailable", message: "No Aptos wallet installed." },
+    };
+  }
+
+  try {
+    const client = getClient(token.network);
+    const account = (await wallet.getAccount()) ?? (await wallet.connect());
+    if (!account.address) {
+      return {
+        ok: false,
+        error: { code: "wallet_unavailable", message: "Could not get Aptos wallet address." },
+      };
+    }
+
+    // Catch aborts such as an unregistered recipient before the user signs anything.
+    const publicKey = await getSimulationKey(client, account);
+    if (publicKey) {
+      const params = { token, toAddress, amount };
+      const simulation = await runSimulation(client, account, publicKey, params);
+      if (!simulation.success && simulation.error) return { ok: false, error: simulation.error };
+    }
+
+    const hash = await wallet.signAndSubmitTransaction(
+      buildTransferPayload(token, toAddress, amount)
+    );
+    return {
+      ok: true,
+      hash,
+      explorerUrl: buildExplorerUrl(getNetwork("mvm", token.network), `txn/${hash}`),
+    };
+  } catch (error) {
+    return { ok: false, error: toWalletError(error) };
+  }
+};
+
+const WITHDRAW_EVENTS = [
+  "0x1::coin::WithdrawEvent",
+  "0x1::coin::CoinWithdraw",
+  "0x1::fungible_asset::Withdraw",
+];
+const DEPOSIT_EVENTS = [
+  "0x1::coin::DepositEvent",
+  "0x1::coin::CoinDeposit",
+  "0x1::fungible_asset::Deposit",
+];
+
+interface BalanceEventData {
+  amount: string;
+  // Set on fungible asset events, which name the store rather than its owner.
+  store?: string;
+  // Set on coin module events; handle events carry the account in their guid instead.
+  account?: string;
+}
+
+interface AssetAmount {
+  symbol: string;
+  decimals: number;
+}
+
+/** Derives per-account balance changes from a simulated transaction's events and write set. */
+const collectBalanceChanges = (
+  simulation: Types.UserTransaction,
+  token: Token,
+  sender: string,
+  feeOctas: bigint
+): BalanceChange[] => {
+  const { nativeCurrency } = getNetwork("mvm", token.network);
+  const native: AssetAmount = nativeCurrency;
+  const isNative =
+    !isFungibleAssetAddress(token.address) &&
+    (!token.address?.includes("::") || token.address === APTOS_COIN);
+  const tokenMetadata = isFungibleAssetAddress(token.address)
+    ? normalizeAddress(token.address)
+    : undefined;
+
+  // Fungible asset events only name a store; the write set tells whose and which asset it is.
+  const storeOwners = new Map<string, string>();
+  const storeAssets = new Map<string, string>();
+  simulation.changes.forEach((change) => {
+    if (change.type !== "write_resource") return;
+    const { address, data } = change as Types.WriteSetChange_WriteResource;
+    if (data.type === "0x1::object::ObjectCore") {
+      storeOwners.set(normalizeAddress(address), (data.data as { owner: string }).owner);
+    } else if (data.type === "0x1::fungible_asset::FungibleStore") {
+      const { metadata } = data.data as { metadata: { inner: string } };
+      storeAssets.set(normalizeAddress(address), normalizeAddress(metadata.inner));
+    }
+  });
+
+  const assetForStore = (metadata: string | undefined): AssetAmount | undefined => {
+    if (metadata && metadata === tokenMetadata) return token;
+    if (metadata === APT_METADATA) return isNative ? token : native;
+    return undefined;
+  };
+
+  const totals = new Map<string, { address: string; asset: AssetAmount; units: bigint }>();
+  const add = (address: string, asset: AssetAmount, units: bigint) => {
+    const key = `${normalizeAddress(address)}:${asset.symbol}`;
+    totals.set(key, { address, asset, units: units + (totals.get(key)?.units ?? 0n) });
+  };
+
+  simulation.events.forEach((event) => {
+    const type = event.type.split("<")[0];
+    const sign = WITHDRAW_EVENTS.includes(type) ? -1 : DEPOSIT_EVENTS.includes(type) ? 1 : 0;
+    if (!sign) return;
+
+    const data = event.data as BalanceEventData;
+    const amount = BigInt(data.amount) * BigInt(sign);
+    if (data.store) {
+      const store = normalizeAddress(data.store);
+      const owner = storeOwners.get(store);
+      const asset = assetForStore(storeAssets.get(store));
+      if (owner && asset) add(owner, asset, amount);
+    } else {
+      add(data.account ?? event.guid.account_address, token, amount);
+    }
+  });
+
+  add(sender, native, -feeOctas);
+
+  return Array.from(totals.values())
+    .filter(({ units }) => units !== 0n)
+    .map(({ address, asset, units }) => ({
+      address,
+      symbol: asset.symbol,
+      amount: formatAmount(units, asset.decimals),
+    }));
+};
+
+const NO_SIMULATION_KEY =
+  "This account does not sign with a single Ed25519 key, e.g. a keyless or multi-key " +
+  "account, so the transfer cannot be dry-run.";
+
+/**
+ * Returns the Ed25519 key to simulate as `account`, or null for keyless, multi-key and
+ * other accounts whose authentication key is not derived from a single Ed25519 key.
+ */
+const getSimulationKey = async (
+  client: AptosClient,
+  account: AptosAccount
+): Promise<TxnBuilderTypes.Ed25519PublicKey | null> => {
+  if (!account.publicKey) return null;
+  const bytes = new HexString(account.publicKey).toUint8Array();
+  if (bytes.length !== TxnBuilderTypes.Ed25519PublicKey.LENGTH) return null;
+
+  let authenticationKey: string;
+  try {
+    authenticationKey = (await client.getAccount(account.address)).authentication_key;
+  } catch (error) {
+    // Accounts not yet created on chain still use their address as authentication key.
+    if ((error as { status?: number }).status !== 404) throw error;
+    authenticationKey = account.address;
+  }
+
+  const publicKey = new TxnBuilderTypes.Ed25519PublicKey(bytes);
+  const derived = TxnBuilderTypes.AuthenticationKey.fromEd25519PublicKey(publicKey).derivedAddress();
+  return normalizeAddress(derived.hex()) === normalizeAddress(authenticationKey) ? publicKey : null;
+};
+
+const runSimulation = async (
+  client: AptosClient,
+  account: AptosAccount,
+  publicKey: TxnBuilderTypes.Ed25519PublicKey,
+  { token, toAddress, amount }: TransferParams
+): Promise<TransferSimulation> => {
+  const rawTxn = await client.generateTransaction(
+    account.address,
+    buildTransferPayload(token, toAddress, amount)
+  );
+  const [simulation] = await client.simulateTransaction(publicKey, rawTxn, {
+    estimateGasUnitPrice: true,
+    estimateMaxGasAmount: true,
+    estimatePrioritizedGasUnitPrice: false,
+  });
+
+  const { nativeCurrency } = getNetwork("mvm", token.network);
+  const octas = BigInt(simulation.gas_used) * BigInt(simulation.gas_unit_price);
+  return {
+    success: simulation.success,
+    error: simulation.success
+      ? undefined
+      : {
+          code: isInsufficientBalanceStatus(simulation.vm_status)
+            ? "insufficient_funds"
+            : "transaction_failed",
+          message: explainAptosVmStatus(simulation.vm_status),
+        },
+    gasUsed: simulation.gas_used,
+    fee: {
+      amount: formatAmount(octas, nativeCurrency.decimals),
+      symbol: nativeCurrency.symbol,
+    },
+    balanceChanges: collectBalanceChanges(simulation, token, account.address, octas),
+  };
+};
+
+const requireAptosAccount = async (): Promise<AptosAccount> => {
+  const account = await getAptosWallet()?.getAccount();
+  if (!account) throw new Error("Aptos wallet not connected");
+  return account;
+};
+
+export const simulateMVMTransfer = async (params: TransferParams): Promise<TransferSimulation> => {
+  const client = getClient(params.token.network);
+  const account = await requireAptosAccount();
+  const publicKey = await getSimulationKey(client, account);
+  if (!publicKey) throw new Error(NO_SIMULATION_KEY);
+
+  return runSimulation(client, account, publicKey, params);
+};
+
+export const estimateMVMFee = async (params: TransferParams): Promise<FeeEstimate> => {
+  const { token, toAddress, amount } = params;
+  const client = getClient(token.network);
+  const account = await requireAptosAccount();
+  const publicKey = await getSimulationKey(client, account);
+  if (publicKey) return (await runSimulation(client, account, publicKey, params)).fee;
+
+  // Without a dry run, quote the most the transaction is allowed to cost.
+  const rawTxn = await client.generateTransaction(
+    account.address,
+    buildTransferPayload(token, toAddress, amount)
+  );
+  const { nativeCurrency } = getNetwork("mvm", token.network);
+  return {
+    amount: formatAmount(rawTxn.max_gas_amount * rawTxn.gas_unit_price, nativeCurrency.decimals),
+    symbol: nativeCurrency.symbol,
+    description: "Maximum fee. The actual fee is usually much lower.",
+  };
+};
+
+// Aptos commits are final, so a transaction goes straight from submitted to finalized.
+export const getMVMTransactionStatus = async (
+  hash: string,
+  networkId?: string
+): Promise<TransactionStatus> => {
+  let transaction: Types.Transaction;
+  try {
+    transaction = await getClient(networkId).getTransactionByHash(hash);
+  } catch (error) {
+    // Freshly submitted transactions can take a moment to reach the node's mempool.
+    if ((error as { status?: number }).status === 404) return "submitted";
+    throw error;
+  }
+
+  if (transaction.type === "pending_transaction") return "submitted";
+  return (transaction as Types.UserTransaction).success ? "finalized" : "failed";
+};
+
+const aptosNames: NameService = {
+  isName: (input) => /\.apt$/i.test(input.trim()),
+  resolve: (name) => {
+    const network = getActiveNetwork("mvm");
+    return resolveAptosName(getClient(network.id), network.profile, name);
+  },
+  lookup: (address) => {
+    const network = getActiveNetwork("mvm");
+    return lookupAptosName(getClient(network.id), network.profile, address);
+  },
+};
+
+export const mvmAdapter: ChainAdapter = {
+  id: "mvm",
+  displayName: "Aptos",
+  walletName: "Petra Wallet",
+  installUrl: "https://petra.app/",
+  wallets: mvmWallets,
+  names: aptosNames,
+  isInstalled: () => !!getAptosWallet(),
+  connect: async () => {
+    const wallet = getAptosWallet();
+    if (!wallet) throw new Error("No Aptos wallet available");
+
+    const account = await wallet.connect();
+    if (!account?.address) throw new Error("Could not get Aptos wallet address.");
+    return account.address;
+  },
+  disconnect: async () => {
+    await getAptosWallet()?.disconnect();
+  },
+  getConnectedAccount: async () => {
+    const account = await getAptosWallet()?.getAccount();
+    return account?.address ?? null;
+  },
+  subscribe: ({ onAccountChange, onNetworkChange }) =>
+    mvmWallets.watchProvider((wallet) => {
+      if (!wallet) return () => {};
+
+      const muteAccount = wallet.onAccountChange(onAccountChange);
+      const muteNetwork = wallet.onNetworkChange(onNetworkChange);
+      return () => {
+        muteAccount();
+        muteNetwork();
+      };
+    }),
+  getTransactionStatus: getMVMTransactionStatus,
+  getBalances: getAllMVMTokenBalances,
+  getActivity: (address) => {
+    const network = getActiveNetwork("mvm");
+    return fetchAptosActivity(getClient(network.id), network, address);
+  },
+  validateAddress: validateAptosAddress,
+  estimateFee: estimateMVMFee,
+  simulate: simulateMVMTransfer,
+  transfer: ({ token, toAddress, amount }) => transferMVMToken(token, toAddress, amount),
+  explorerUrl: (target, value, networkId) =>
+    buildExplorerUrl(
+      getNetwork("mvm", networkId),
+      `${target === "tx" ? "txn" : "account"}/${value}`
+    ),
+};
@@ -0,0 +1,313 @@
+import { NetworkConfig, NetworkProfile } from "@/types/network";
+
+const PROFILES_STORAGE_KEY = "multi-wallet:network-profiles";
+const NETWORKS_STORAGE_KEY = "multi-wallet:active-networks";
+
+export const NETWORKS: Record<string, NetworkConfig[]> = {
+  evm: [
+    {
+      id: "ethereum",
+      profile: "mainnet",
+      name: "Ethereum",
+      rpcUrl: "https://ethereum-rpc.publicnode.com",
+      chainId: 1,
+      explorerUrl: "https://etherscan.io",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    {
+      id: "polygon",
+      profile: "mainnet",
+      name: "Polygon",
+      rpcUrl: "https://polygon-rpc.com",
+      chainId: 137,
+      explorerUrl: "https://polygonscan.com",
+      nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    },
+    {
+      id: "arbitrum",
+      profile: "mainnet",
+      name: "Arbitrum One",
+      rpcUrl: "https://arb1.arbitrum.io/rpc",
+      chainId: 42161,
+      explorerUrl: "https://arbiscan.io",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    {
+      id: "optimism",
+      profile: "mainnet",
+      name: "OP Mainnet",
+      rpcUrl: "https://mainnet.optimism.io",
+      chainId: 10,
+      explorerUrl: "https://optimistic.etherscan.io",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    {
+      id: "base",
+      profile: "mainnet",
+      name: "Base",
+      rpcUrl: "https://mainnet.base.org",
+      chainId: 8453,
+      explorerUrl: "https://basescan.org",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    {
+      id: "celo",
+      profile: "mainnet",
+      name: "Celo Mainnet",
+      rpcUrl: "https://forno.celo.org",
+      chainId: 42220,
+      explorerUrl: "https://celoscan.io",
+      nativeCurrency: { name: "Celo", symbol: "CELO", decimals: 18 },
+    },
+    {
+      id: "sepolia",
+      profile: "testnet",
+      name: "Ethereum Sepolia",
+      rpcUrl: "https://ethereum-sepolia-rpc.publicnode.com",
+      chainId: 11155111,
+      explorerUrl: "https://sepolia.etherscan.io",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    {
+      id: "polygon-amoy",
+      profile: "testnet",
+      name: "Polygon Amoy",
+      rpcUrl: "https://rpc-amoy.polygon.technology",
+      chainId: 80002,
+      explorerUrl: "https://amoy.polygonscan.com",
+      nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    },
+    {
+      id: "arbitrum-sepolia",
+      profile: "testnet",
+      name: "Arbitrum Sepolia",
+      rpcUrl: "https://sepolia-rollup.arbitrum.io/rpc",
+      chainId: 421614,
+      explorerUrl: "https://sepolia.arbiscan.io",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    {
+      id: "optimism-sepolia",
+      profile: "testnet",
+      name: "OP Sepolia",
+      rpcUrl: "https://sepolia.optimism.io",
+      chainId: 11155420,
+      explorerUrl: "https://sepolia-optimism.etherscan.io",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    {
+      id: "base-sepolia",
+      profile: "testnet",
+      name: "Base Sepolia",
+      rpcUrl: "https://sepolia.base.org",
+      chainId: 84532,
+      explorerUrl: "https://sepolia.basescan.org",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    {
+      id: "celo-alfajores",
+      profile: "testnet",
+      name: "Celo Alfajores Testnet",
+      rpcUrl: "https://alfajores-forno.celo-testnet.org",
+      chainId: 44787,
+      explorerUrl: "https://alfajores.celoscan.io",
+      nativeCurrency: { name: "Celo", symbol: "CELO", decimals: 18 },
+    },
+    {
+      id: "anvil",
+      profile: "local",
+      name: "Anvil",
+      rpcUrl: "http://127.0.0.1:8545",
+      chainId: 31337,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+  ],
+  svm: [
+    {
+      id: "mainnet",
+      profile: "mainnet",
+      name: "Solana Mainnet Beta",
+      rpcUrl: "https://api.mainnet-beta.solana.com",
+      explorerUrl: "https://explorer.solana.com",
+      nativeCurrency: { name: "Solana", symbol: "SOL", decimals: 9 },
+    },
+    {
+      id: "testnet",
+      profile: "testnet",
+      name: "Solana Testnet",
+      rpcUrl: "https://api.testnet.solana.com",
+      explorerUrl: "https://explorer.solana.com",
+      explorerQuery: "?cluster=testnet",
+      nativeCurrency: { name: "Solana", symbol: "SOL", decimals: 9 },
+    },
+    {
+      id: "devnet",
+      profile: "devnet",
+      name: "Solana Devnet",
+      rpcUrl: "https://api.devnet.solana.com",
+      explorerUrl: "https://explorer.solana.com",
+      explorerQuery: "?cluster=devnet",
+      nativeCurrency: { name: "Solana", symbol: "SOL", decimals: 9 },
+    },
+    {
+      id: "local",
+      profile: "local",
+      name: "solana-test-validator",
+      rpcUrl: "http://127.0.0.1:8899",
+      explorerUrl: "https://explorer.solana.com",
+      explorerQuery: "?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899",
+      nativeCurrency: { name: "Solana", symbol: "SOL", decimals: 9 },
+    },
+  ],
+  mvm: [
+    {
+      id: "mainnet",
+      profile: "mainnet",
+      name: "Aptos Mainnet",
+      rpcUrl: "https://fullnode.mainnet.aptoslabs.com/v1",
+      chainId: 1,
+      explorerUrl: "https://explorer.aptoslabs.com",
+      explorerQuery: "?network=mainnet",
+      nativeCurrency: { name: "Aptos Coin", symbol: "APT", decimals: 8 },
+    },
+    {
+      id: "testnet",
+      profile: "testnet",
+      name: "Aptos Testnet",
+      rpcUrl: "https://fullnode.testnet.aptoslabs.com/v1",
+      chainId: 2,
+      explorerUrl: "https://explorer.aptoslabs.com",
+      explorerQuery: "?network=testnet",
+      nativeCurrency: { name: "Aptos Coin", symbol: "APT", decimals: 8 },
+    },
+    {
+      id: "devnet",
+      profile: "devnet",
+      name: "Aptos Devnet",
+      rpcUrl: "https://fullnode.devnet.aptoslabs.com/v1",
+      explorerUrl: "https://explorer.aptoslabs.com",
+      explorerQuery: "?network=devnet",
+      nativeCurrency: { name: "Aptos Coin", symbol: "APT", decimals: 8 },
+    },
+    {
+      id: "local",
+      profile: "local",
+      name: "Aptos Local Node",
+      rpcUrl: "http://127.0.0.1:8080/v1",
+      chainId: 4,
+      explorerUrl: "https://explorer.aptoslabs.com",
+      explorerQuery: "?network=local",
+      nativeCurrency: { name: "Aptos Coin", symbol: "APT", decimals: 8 },
+    },
+  ],
+};
+
+const DEFAULT_PROFILES: Record<string, NetworkProfile> = {
+  evm: "testnet",
+  svm: "devnet",
+  mvm: "devnet",
+};
+
+const DEFAULT_NETWORKS: Record<string, string> = {
+  evm: "celo-alfajores",
+};
+
+type NetworkListener = (chain: string) => void;
+
+const listeners = new Set<NetworkListener>();
+
+const loadSelection = (key: string, defaults: Record<string, string>): Record<string, string> => {
+  try {
+    const stored = typeof localStorage !== "undefined" ? localStorage.getItem(key) : null;
+    return stored ? { ...defaults, ...JSON.parse(stored) } : { ...defaults };
+  } catch (error) {
+    console.warn("Failed to load network selection:", error);
+    return { ...defaults };
+  }
+};
+
+const saveSelection = (key: string, selection: Record<string, string>) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(selection));
+  } catch (error) {
+    console.warn("Failed to persist network selection:", error);
+  }
+};
+
+let activeProfiles = loadSelection(PROFILES_STORAGE_KEY, DEFAULT_PROFILES) as Record<string, NetworkProfile>;
+let activeNetworks = loadSelection(NETWORKS_STORAGE_KEY, DEFAULT_NETWORKS);
+
+const notify = (chain: string) => listeners.forEach((listener) => listener(chain));
+
+export const getNetworks = (chain: string): NetworkConfig[] => NETWORKS[chain] ?? [];
+
+export const getAvailableProfiles = (chain: string): NetworkProfile[] => {
+  return Array.from(new Set(getNetworks(chain).map((network) => network.profile)));
+};
+
+export const getActiveProfile = (chain: string): NetworkProfile => {
+  const profiles = getAvailableProfiles(chain);
+  const profile = activeProfiles[chain];
+  if (profile && profiles.includes(profile)) return profile;
+  return profiles.includes(DEFAULT_PROFILES[chain]) ? DEFAULT_PROFILES[chain] : profiles[0];
+};
+
+export const getProfileNetworks = (
+  chain: string,
+  profile: NetworkProfile = getActiveProfile(chain)
+): NetworkConfig[] => {
+  return getNetworks(chain).filter((network) => network.profile === profile);
+};
+
+export const getActiveNetwork = (chain: string): NetworkConfig => {
+  const networks = getProfileNetworks(chain);
+  const network =
+    networks.find((candidate) => candidate.id === activeNetworks[chain]) ??
+    networks.find((candidate) => candidate.id === DEFAULT_NETWORKS[chain]) ??
+    networks[0];
+  if (!network) throw new Error(`No network profile configured for chain "${chain}"`);
+  return network;
+};
+
+/** Looks up a network by id, falling back to the active network when no id is given. */
+export const getNetwork = (chain: string, networkId?: string): NetworkConfig => {
+  if (!networkId) return getActiveNetwork(chain);
+
+  const network = getNetworks(chain).find((candidate) => candidate.id === networkId);
+  if (!network) throw new Error(`Unknown network "${networkId}" for chain "${chain}"`);
+  return network;
+};
+
+export const setActiveProfile = (chain: string, profile: NetworkProfile): void => {
+  if (!getAvailableProfiles(chain).includes(profile)) {
+    throw new Error(`Network profile "${profile}" is not available for chain "${chain}"`);
+  }
+  if (getActiveProfile(chain) === profile) return;
+
+  activeProfiles = { ...activeProfiles, [chain]: profile };
+  saveSelection(PROFILES_STORAGE_KEY, activeProfiles);
+  notify(chain);
+};
+
+export const setActiveNetwork = (chain: string, networkId: string): void => {
+  const network = getNetwork(chain, networkId);
+  if (getActiveNetwork(chain).id === network.id) return;
+
+  activeProfiles = { ...activeProfiles, [chain]: network.profile };
+  activeNetworks = { ...activeNetworks, [chain]: network.id };
+  saveSelection(PROFILES_STORAGE_KEY, activeProfiles);
+  saveSelection(NETWORKS_STORAGE_KEY, activeNetworks);
+  notify(chain);
+};
+
+export const subscribeToNetworkChanges = (listener: NetworkListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const buildExplorerUrl = (network: NetworkConfig, path: string): string | undefined => {
+  if (!network.explorerUrl) return undefined;
+  return `${network.explorerUrl}/${path}${network.explorerQuery ?? ""}`;
+};
@@ -0,0 +1,23 @@
+import { ChainAdapter } from "@/types/wallet";
+
+const adapters = new Map<string, ChainAdapter>();
+
+export const registerChainAdapter = (adapter: ChainAdapter): void => {
+  if (adapters.has(adapter.id)) {
+    console.warn(`Chain adapter "${adapter.id}" is already registered, replacing it.`);
+  }
+  adapters.set(adapter.id, adapter);
+};
+
+export const getChainAdapter = (chain: string): ChainAdapter | undefined => {
+  return adapters.get(chain);
+};
+
+export const getChainAdapters = (): ChainAdapter[] => {
+  return Array.from(adapters.values());
+};
+
+/** Name of the wallet the user picked for a chain, or the adapter's default. */
+export const getWalletName = (adapter: ChainAdapter): string => {
+  return adapter.wallets?.getSelectedWallet()?.name ?? adapter.walletName;
+};
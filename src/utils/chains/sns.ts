@@ -0,0 +1,128 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+
+const NAME_PROGRAM_ID = new PublicKey("namesLPneVptA9Z5rqUDD9tMTWEJwofgaYwp8cawRkX");
+const SOL_TLD_AUTHORITY = new PublicKey("58PwtjSE3Gc8t7SSmDEXTZERFS4eGKXkkxD9kMSmqXBg");
+const REVERSE_LOOKUP_CLASS = new PublicKey("33m47vH6Eav6jr5Ry86XjhRft2jRBLDnDgPSHoquXi2Z");
+// Stores each wallet's chosen primary ("favourite") domain.
+const FAVOURITE_DOMAIN_PROGRAM_ID = new PublicKey("85iDfUvr3HJyLM2LcCdkjWv7ZxaGK3dGm3LNw6mhCAVP");
+// Wraps domains in NFTs; while tokenized, the registry owner is this program's record PDA.
+const NAME_TOKENIZER_ID = new PublicKey("nftD3vbNkNqfj2Sd3HZwbpw4BxxKWr4AjGb9X38JeZk");
+
+const HASH_PREFIX = "SPL Name Service";
+// Name registry accounts start with parent name, owner and class keys.
+const REGISTRY_HEADER_LENGTH = 96;
+const OWNER_OFFSET = 32;
+
+const hashName = async (name: string): Promise<Uint8Array> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(HASH_PREFIX + name));
+  return new Uint8Array(digest);
+};
+
+const getNameAccountKey = async (
+  name: string,
+  nameClass?: PublicKey,
+  parent?: PublicKey
+): Promise<PublicKey> => {
+  const [key] = PublicKey.findProgramAddressSync(
+    [
+      await hashName(name),
+      nameClass?.toBytes() ?? new Uint8Array(32),
+      parent?.toBytes() ?? new Uint8Array(32),
+    ],
+    NAME_PROGRAM_ID
+  );
+  return key;
+};
+
+/** Derives the registry account of "domain.sol" or "sub.domain.sol". */
+const getDomainKey = async (name: string): Promise<PublicKey | null> => {
+  const labels = name.toLowerCase().replace(/\.sol$/, "").split(".");
+  if (labels.length > 2 || labels.some((label) => !label)) return null;
+
+  const domain = labels[labels.length - 1];
+  const domainKey = await getNameAccountKey(domain, undefined, SOL_TLD_AUTHORITY);
+  // Subdomain names are hashed with a leading zero byte.
+  return labels.length === 2
+    ? getNameAccountKey(`\0${labels[0]}`, undefined, domainKey)
+    : domainKey;
+};
+
+const getOwner = async (connection: Connection, key: PublicKey): Promise<PublicKey | null> => {
+  const account = await connection.getAccountInfo(key);
+  if (!account || account.data.length < REGISTRY_HEADER_LENGTH) return null;
+  return new PublicKey(account.data.subarray(OWNER_OFFSET, OWNER_OFFSET + 32));
+};
+
+/** Finds the wallet holding a tokenized domain's NFT, or null when nobody holds it. */
+const getNftHolder = async (connection: Connection, domainKey: PublicKey): Promise<PublicKey | null> => {
+  const [mint] = PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode("tokenized_name"), domainKey.toBytes()],
+    NAME_TOKENIZER_ID
+  );
+  const { value: holders } = await connection.getTokenLargestAccounts(mint);
+  const holder = holders.find((account) => account.amount === "1");
+  if (!holder) return null;
+
+  // Token accounts start with the mint, followed by the owning wallet.
+  const account = await connection.getAccountInfo(holder.address);
+  return account ? new PublicKey(account.data.subarray(32, 64)) : null;
+};
+
+/**
+ * Resolves a .sol domain to the wallet that owns it, following tokenized domains to the
+ * NFT holder. Throws when the owner is any other program account, since funds sent there
+ * could only be moved by that program.
+ */
+export const resolveSNSName = async (
+  connection: Connection,
+  name: string
+): Promise<string | null> => {
+  const domainKey = await getDomainKey(name.trim());
+  if (!domainKey) return null;
+
+  let owner = await getOwner(connection, domainKey);
+  if (!owner) return null;
+
+  const [nftRecord] = PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode("nft_record"), domainKey.toBytes()],
+    NAME_TOKENIZER_ID
+  );
+  if (owner.equals(nftRecord)) {
+    owner = await getNftHolder(connection, domainKey);
+    if (!owner) return null;
+  }
+
+  if (!PublicKey.isOnCurve(owner.toBytes())) {
+    throw new Error(`It is owned by a program account (${owner.toBase58()}), not a wallet.`);
+  }
+  return owner.toBase58();
+};
+
+/** Finds the primary .sol domain a wallet has set, if it still owns it. */
+export const lookupSNSName = async (
+  connection: Connection,
+  address: string
+): Promise<string | null> => {
+  const owner = new PublicKey(address);
+  const [favouriteKey] = PublicKey.findProgramAddressSync(
+    [new TextEncoder().encode("favourite_domain"), owner.toBytes()],
+    FAVOURITE_DOMAIN_PROGRAM_ID
+  );
+  const favourite = await connection.getAccountInfo(favouriteKey);
+  // Layout: u8 tag followed by the domain's registry key.
+  if (!favourite || favourite.data.length < 33) return null;
+  const domainKey = new PublicKey(favourite.data.subarray(1, 33));
+
+  const reverseKey = await getNameAccountKey(domainKey.toBase58(), REVERSE_LOOKUP_CLASS);
+  const [reverse, domainOwner] = await Promise.all([
+    connection.getAccountInfo(reverseKey),
+    getOwner(connection, domainKey),
+  ]);
+  if (!reverse || !domainOwner?.equals(owner)) return null;
+
+  // Reverse records hold the domain as a borsh string: u32 length, then UTF-8 bytes.
+  const data = reverse.data.subarray(REGISTRY_HEADER_LENGTH);
+  const length = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true);
+  const domain = new TextDecoder().decode(data.subarray(4, 4 + length));
+  return domain && !domain.startsWith("\0") ? `${domain}.sol` : null;
+};
@@ -0,0 +1,129 @@
+import { PublicKey, Transaction } from "@solana/web3.js";
+import {
+  SolanaWalletProvider,
+  StandardWallet,
+  StandardWalletAccount,
+} from "@/types/providers";
+import { createWalletStore } from "./walletStore";
+import { hasFeatures, onStandardWallet, registerStandardWallet } from "./walletStandard";
+
+/** What the Solana adapter needs from a wallet, whichever way it was discovered. */
+export interface SolanaSigner {
+  connect: () => Promise<PublicKey>;
+  disconnect: () => Promise<void>;
+  getPublicKey: () => PublicKey | null;
+  signTransaction: (transaction: Transaction, networkId?: string) => Promise<Transaction>;
+  onAccountChange: (listener: (publicKey: PublicKey | null) => void) => () => void;
+}
+
+interface StandardSolanaFeatures {
+  "standard:connect": {
+    connect: (input?: { silent?: boolean }) => Promise<{ accounts: readonly StandardWalletAccount[] }>;
+  };
+  "standard:disconnect"?: {
+    disconnect: () => Promise<void>;
+  };
+  "standard:events"?: {
+    on: (
+      event: "change",
+      listener: (properties: { accounts?: readonly StandardWalletAccount[] }) => void
+    ) => () => void;
+  };
+  "solana:signTransaction": {
+    signTransaction: (
+      ...inputs: { account: StandardWalletAccount; transaction: Uint8Array; chain?: string }[]
+    ) => Promise<{ signedTransaction: Uint8Array }[]>;
+  };
+}
+
+const REQUIRED_FEATURES = ["standard:connect", "solana:signTransaction"];
+
+// Wallet Standard chain ids, keyed by our Solana network ids.
+const STANDARD_CHAINS: Record<string, string> = {
+  mainnet: "solana:mainnet",
+  testnet: "solana:testnet",
+  devnet: "solana:devnet",
+  local: "solana:localnet",
+};
+
+export const svmWallets = createWalletStore<SolanaSigner>("multi-wallet:svm-wallet");
+
+const createStandardSigner = (wallet: StandardWallet): SolanaSigner => {
+  const features = wallet.features as unknown as StandardSolanaFeatures;
+  let account: StandardWalletAccount | undefined = wallet.accounts[0];
+
+  const requireAccount = () => {
+    if (!account) throw new Error(`${wallet.name} is not connected`);
+    return account;
+  };
+
+  return {
+    connect: async () => {
+      const { accounts } = await features["standard:connect"].connect();
+      account = accounts[0];
+      return new PublicKey(requireAccount().publicKey);
+    },
+    disconnect: async () => {
+      await features["standard:disconnect"]?.disconnect();
+      account = undefined;
+    },
+    getPublicKey: () => {
+      account = account ?? wallet.accounts[0];
+      return account ? new PublicKey(account.publicKey) : null;
+    },
+    signTransaction: async (transaction, networkId) => {
+      const [{ signedTransaction }] = await features["solana:signTransaction"].signTransaction({
+        account: requireAccount(),
+        transaction: transaction.serialize({ requireAllSignatures: false, verifySignatures: false }),
+        chain: networkId ? STANDARD_CHAINS[networkId] : undefined,
+      });
+      return Transaction.from(signedTransaction);
+    },
+    onAccountChange: (listener) => {
+      const events = features["standard:events"];
+      if (!events) return () => {};
+
+      return events.on("change", ({ accounts }) => {
+        if (!accounts) return;
+        account = accounts[0];
+        listener(account ? new PublicKey(account.publicKey) : null);
+      });
+    },
+  };
+};
+
+const createLegacySigner = (provider: SolanaWalletProvider): SolanaSigner => ({
+  connect: async () => (await provider.connect()).publicKey,
+  disconnect: () => provider.disconnect(),
+  getPublicKey: () => (provider.isConnected && provider.publicKey ? provider.publicKey : null),
+  signTransaction: (transaction) => provider.signTransaction(transaction),
+  onAccountChange: (listener) => {
+    const handleAccountChanged = (publicKey: unknown) =>
+      listener(publicKey instanceof PublicKey ? publicKey : null);
+    const handleDisconnect = () => listener(null);
+
+    provider.on("accountChanged", handleAccountChanged);
+    provider.on("disconnect", handleDisconnect);
+
+    return () => {
+      provider.off("accountChanged", handleAccountChanged);
+      provider.off("disconnect", handleDisconnect);
+    };
+  },
+});
+
+/** Starts Wallet Standard discovery, falling back to a legacy `window.solana` injection. */
+export const discoverSolanaWallets = (): void => {
+  if (typeof window === "undefined") return;
+
+  onStandardWallet((wallet) => {
+    const supportsSolana = wallet.chains.some((chain) => chain.startsWith("solana:"));
+    if (!supportsSolana || !hasFeatures(wallet, REQUIRED_FEATURES)) return;
+
+    registerStandardWallet(svmWallets, wallet, createStandardSigner(wallet));
+  });
+
+  if (window.solana) {
+    svmWallets.registerLegacy(window.solana.isPhantom ? "Phantom" : "Solana Wallet", createLegacySigner(window.solana));
+  }
+};
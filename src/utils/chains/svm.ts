@@ -0,0 +1,440 @@
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  SystemProgram,
+} from "@solana/web3.js";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountInstruction,
+  createTransferCheckedInstruction,
+  getAccountLenForMint,
+  getAssociatedTokenAddressSync,
+  getMint,
+} from "@solana/spl-token";
+import {
+  ChainAdapter,
+  FeeEstimate,
+  NameService,
+  Token,
+  TransferParams,
+  TransferResult,
+} from "@/types/wallet";
+import { TransactionStatus } from "@/types/transaction";
+import { formatAmount, parseAmount } from "@/utils/amount";
+import { buildExplorerUrl, getActiveNetwork, getNetwork } from "./networks";
+import { SPL_TOKENS, findKnownToken } from "./tokens";
+import { SolanaSigner, discoverSolanaWallets, svmWallets } from "./solanaWallets";
+import { fetchSVMActivity } from "./svmActivity";
+import { validateSolanaAddress } from "./addressValidation";
+import { lookupSNSName, resolveSNSName } from "./sns";
+import { toWalletError } from "./errors";
+
+discoverSolanaWallets();
+
+export const getConnection = (networkId?: string) =>
+  new Connection(getNetwork("svm", networkId).rpcUrl, "confirmed");
+
+const SOL_DECIMALS = 9;
+
+const getSolanaWallet = () => svmWallets.getProvider();
+
+export const getSolanaBalance = async (publicKey: string): Promise<string> => {
+  try {
+    const connection = getConnection();
+    const balance = await connection.getBalance(new PublicKey(publicKey));
+    return formatAmount(balance, SOL_DECIMALS);
+  } catch (error) {
+    console.error("Error getting Solana balance:", error);
+    return "0";
+  }
+};
+
+interface ParsedTokenAccountInfo {
+  mint: string;
+  state?: "initialized" | "frozen";
+  tokenAmount: {
+    amount: string;
+    decimals: number;
+    uiAmountString: string;
+  };
+}
+
+const getSPLTokenBalances = async (
+  connection: Connection,
+  owner: PublicKey
+): Promise<Token[]> => {
+  const network = getActiveNetwork("svm");
+  const responses = await Promise.all(
+    [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+      connection.getParsedTokenAccountsByOwner(owner, { programId })
+    )
+  );
+
+  // An owner can hold several accounts for the same mint, so sum them per mint.
+  const balances = new Map<string, ParsedTokenAccountInfo["tokenAmount"]>();
+  responses
+    .flatMap((response) => response.value)
+    .forEach(({ account }) => {
+      const info = account.data.parsed.info as ParsedTokenAccountInfo;
+      const existing = balances.get(info.mint);
+      if (!existing) {
+        balances.set(info.mint, info.tokenAmount);
+        return;
+      }
+
+      const amount = (BigInt(existing.amount) + BigInt(info.tokenAmount.amount)).toString();
+      balances.set(info.mint, {
+        amount,
+        decimals: existing.decimals,
+        uiAmountString: formatAmount(amount, existing.decimals),
+      });
+    });
+
+  return Array.from(balances.entries()).map(([mint, tokenAmount]) => {
+    const known = findKnownToken(SPL_TOKENS, network.profile, mint);
+
+    return {
+      id: mint,
+      symbol: known?.symbol ?? `${mint.slice(0, 4)}…`,
+      name: known?.name ?? "Unknown SPL Token",
+      balance: tokenAmount.uiAmountString,
+      rawBalance: tokenAmount.amount,
+      decimals: tokenAmount.decimals,
+      address: mint,
+      chain: "svm",
+      network: network.id,
+      logoURI: known?.logoURI ?? "",
+      priceUSD: "0",
+    };
+  });
+};
+
+export const getSVMTokenBalances = async (publicKeyStr: string): Promise<Token[]> => {
+  const connection = getConnection();
+  const publicKey = new PublicKey(publicKeyStr);
+
+  const [balance, splTokens] = await Promise.all([
+    connection.getBalance(publicKey),
+    getSPLTokenBalances(connection, publicKey),
+  ]);
+
+  const solToken: Token = {
+    id: "SOL",
+    symbol: "SOL",
+    name: "Solana",
+    balance: formatAmount(balance, SOL_DECIMALS),
+    rawBalance: balance.toString(),
+    decimals: SOL_DECIMALS,
+    address: "native",
+    chain: "svm",
+    network: getActiveNetwork("svm").id,
+    logoURI: "",
+    priceUSD: "0",
+  };
+
+  return [solToken, ...splTokens];
+};
+
+const buildSOLTransfer = (from: PublicKey, toAddress: string, lamports: bigint) =>
+  new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: from,
+      toPubkey: new PublicKey(toAddress),
+      lamports,
+    })
+  );
+
+const isNativeSOL = (token: Token) => !token.address || token.address === "native";
+
+interface SPLTransfer {
+  transaction: Transaction;
+  decimals: number;
+  // Rent (in lamports) paid for creating the recipient's associated token account, if needed.
+  accountRent: number;
+}
+
+/**
+ * Picks the owner's token account to debit: the associated token account when it holds
+ * enough, otherwise the fullest other account that does. Balances are shown summed over
+ * all accounts, but one transfer can only draw from one of them.
+ */
+const findSourceAccount = async (
+  connection: Connection,
+  owner: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey,
+  baseAmount: bigint
+): Promise<PublicKey> => {
+  const associated = getAssociatedTokenAddressSync(mint, owner, false, programId);
+  const { value } = await connection.getParsedTokenAccountsByOwner(owner, { mint });
+
+  const candidates = value
+    .map(({ pubkey, account }) => {
+      const info = account.data.parsed.info as ParsedTokenAccountInfo;
+      return { pubkey, info, amount: BigInt(info.tokenAmount.amount) };
+    })
+    .filter(({ info, amount }) => info.state !== "frozen" && amount >= baseAmount)
+    .sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1));
+
+  const source = candidates.find(({ pubkey }) => pubkey.equals(associated)) ?? candidates[0];
+  if (!source && value.length > 1) {
+    throw new Error(
+      "No single token account holds this amount. Your balance is spread over several " +
+        "accounts; send a smaller amount or consolidate them in your wallet first."
+    );
+  }
+  // With one account or none, let the chain report the shortfall as usual.
+  return source?.pubkey ?? associated;
+};
+
+const buildSPLTransfer = async (
+  connection: Connection,
+  owner: PublicKey,
+  token: Token,
+  toAddress: string,
+  amount: string
+): Promise<SPLTransfer> => {
+  const mint = new PublicKey(token.address);
+  const recipient = new PublicKey(toAddress);
+
+  const mintAccount = await connection.getAccountInfo(mint);
+  if (!mintAccount) throw new Error(`Token mint ${token.address} not found`);
+  const programId = mintAccount.owner;
+  const mintInfo = await getMint(connection, mint, "confirmed", programId);
+
+  // Parse against the mint's own decimals, which are authoritative over the cached token.
+  const baseAmount = parseAmount(amount, mintInfo.decimals);
+
+  const sourceAccount = await findSourceAccount(connection, owner, mint, programId, baseAmount);
+  const destinationAccount = getAssociatedTokenAddressSync(mint, recipient, true, programId);
+
+  const transaction = new Transaction();
+  let accountRent = 0;
+
+  if (!(await connection.getAccountInfo(destinationAccount))) {
+    transaction.add(
+      createAssociatedTokenAccountInstruction(
+        owner,
+        destinationAccount,
+        recipient,
+        mint,
+        programId
+      )
+    );
+    accountRent = await connection.getMinimumBalanceForRentExemption(
+      getAccountLenForMint(mintInfo)
+    );
+  }
+
+  transaction.add(
+    createTransferCheckedInstruction(
+      sourceAccount,
+      mint,
+      destinationAccount,
+      owner,
+      baseAmount,
+      mintInfo.decimals,
+      [],
+      programId
+    )
+  );
+
+  return { transaction, decimals: mintInfo.decimals, accountRent };
+};
+
+const NO_SOLANA_WALLET: TransferResult = {
+  ok: false,
+  error: {
+    code: "wallet_unavailable",
+    message: "No Solana wallet found. Please install one, e.g. Phantom.",
+  },
+};
+
+const signAndSend = async (
+  wallet: SolanaSigner,
+  connection: Connection,
+  transaction: Transaction,
+  feePayer: PublicKey,
+  networkId?: string
+): Promise<TransferResult> => {
+  transaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+  transaction.feePayer = feePayer;
+
+  const network = getNetwork("svm", networkId);
+  const signedTx = await wallet.signTransaction(transaction, network.id);
+  const signature = await connection.sendRawTransaction(signedTx.serialize());
+  return { ok: true, hash: signature, explorerUrl: buildExplorerUrl(network, `tx/${signature}`) };
+};
+
+export const transferSPLToken = async (
+  token: Token,
+  toAddress: string,
+  amount: string
+): Promise<TransferResult> => {
+  const wallet = getSolanaWallet();
+  if (!wallet) return NO_SOLANA_WALLET;
+
+  try {
+    const publicKey = wallet.getPublicKey() ?? (await wallet.connect());
+    const connection = getConnection(token.network);
+
+    const { transaction } = await buildSPLTransfer(
+      connection,
+      publicKey,
+      token,
+      toAddress,
+      amount
+    );
+
+    return await signAndSend(wallet, connection, transaction, publicKey, token.network);
+  } catch (error) {
+    return { ok: false, error: toWalletError(error) };
+  }
+};
+
+export const transferSOL = async (
+  toAddress: string,
+  amount: string,
+  networkId?: string
+): Promise<TransferResult> => {
+  const wallet = getSolanaWallet();
+  if (!wallet) return NO_SOLANA_WALLET;
+
+  try {
+    const publicKey = wallet.getPublicKey() ?? (await wallet.connect());
+    const connection = getConnection(networkId);
+
+    const currentBalance = BigInt(await connection.getBalance(publicKey));
+    const transferAmount = parseAmount(amount, SOL_DECIMALS);
+
+    if (currentBalance < transferAmount) {
+      return {
+        ok: false,
+        error: { code: "insufficient_funds", message: `You need at least ${amount} SOL.` },
+      };
+    }
+
+    const transaction = buildSOLTransfer(publicKey, toAddress, transferAmount);
+    return await signAndSend(wallet, connection, transaction, publicKey, networkId);
+  } catch (error) {
+    return { ok: false, error: toWalletError(error) };
+  }
+};
+
+export const estimateSVMFee = async ({
+  token,
+  toAddress,
+  amount,
+}: TransferParams): Promise<FeeEstimate> => {
+  const publicKey = getSolanaWallet()?.getPublicKey();
+  if (!publicKey) throw new Error("Solana wallet not connected");
+
+  const connection = getConnection(token.network);
+  const { nativeCurrency } = getNetwork("svm", token.network);
+
+  let transaction: Transaction;
+  let accountRent = 0;
+  if (isNativeSOL(token)) {
+    transaction = buildSOLTransfer(publicKey, toAddress, parseAmount(amount, SOL_DECIMALS));
+  } else {
+    ({ transaction, accountRent } = await buildSPLTransfer(
+      connection,
+      publicKey,
+      token,
+      toAddress,
+      amount
+    ));
+  }
+  transaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+  transaction.feePayer = publicKey;
+
+  const { value: lamports } = await connection.getFeeForMessage(transaction.compileMessage());
+  const total = (lamports ?? 0) + accountRent;
+
+  return {
+    amount: formatAmount(total, nativeCurrency.decimals),
+    symbol: nativeCurrency.symbol,
+    description: accountRent
+      ? `Includes ${formatAmount(accountRent, nativeCurrency.decimals)} ${nativeCurrency.symbol} rent to open the recipient's token account`
+      : undefined,
+  };
+};
+
+export const getSVMTransactionStatus = async (
+  signature: string,
+  networkId?: string
+): Promise<TransactionStatus> => {
+  const { value } = await getConnection(networkId).getSignatureStatuses([signature], {
+    searchTransactionHistory: true,
+  });
+  const status = value[0];
+  if (!status) return "submitted";
+  if (status.err) return "failed";
+  if (status.confirmationStatus === "finalized") return "finalized";
+  return status.confirmationStatus === "confirmed" ? "confirmed" : "submitted";
+};
+
+// Solana Name Service only has a registry on mainnet.
+const getSNSConnection = (): Connection | null => {
+  const network = getActiveNetwork("svm");
+  return network.profile === "mainnet" ? getConnection(network.id) : null;
+};
+
+const snsNames: NameService = {
+  isName: (input) => /\.sol$/i.test(input.trim()),
+  resolve: async (name) => {
+    const connection = getSNSConnection();
+    return connection ? resolveSNSName(connection, name) : null;
+  },
+  lookup: async (address) => {
+    const connection = getSNSConnection();
+    return connection ? lookupSNSName(connection, address) : null;
+  },
+};
+
+export const svmAdapter: ChainAdapter = {
+  id: "svm",
+  displayName: "Solana",
+  walletName: "Phantom Wallet",
+  installUrl: "https://phantom.app/",
+  wallets: svmWallets,
+  names: snsNames,
+  isInstalled: () => !!getSolanaWallet(),
+  connect: async () => {
+    const wallet = getSolanaWallet();
+    if (!wallet) throw new Error("No Solana wallet available");
+
+    const publicKey = await wallet.connect();
+    return publicKey.toString();
+  },
+  disconnect: async () => {
+    await getSolanaWallet()?.disconnect();
+  },
+  getConnectedAccount: async () => {
+    return getSolanaWallet()?.getPublicKey()?.toString() ?? null;
+  },
+  subscribe: ({ onAccountChange }) => {
+    const handleAccountChange = (publicKey: PublicKey | null) =>
+      onAccountChange(publicKey ? publicKey.toString() : null);
+
+    return svmWallets.watchProvider(
+      (wallet) => wallet?.onAccountChange(handleAccountChange) ?? (() => {})
+    );
+  },
+  getTransactionStatus: getSVMTransactionStatus,
+  getBalances: getSVMTokenBalances,
+  getActivity: (address) => {
+    const network = getActiveNetwork("svm");
+    return fetchSVMActivity(getConnection(network.id), network, address);
+  },
+  validateAddress: validateSolanaAddress,
+  estimateFee: estimateSVMFee,
+  transfer: ({ token, toAddress, amount }) =>
+    isNativeSOL(token)
+      ? transferSOL(toAddress, amount, token.network)
+      : transferSPLToken(token, toAddress, amount),
+  explorerUrl: (target, value, networkId) =>
+    buildExplorerUrl(getNetwork("svm", networkId), `${target}/${value}`),
+};
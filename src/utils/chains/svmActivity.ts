@@ -0,0 +1,163 @@
+import {
+  Connection,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  TokenBalance,
+} from "@solana/web3.js";
+import { Activity } from "@/types/activity";
+import { NetworkConfig } from "@/types/network";
+import { formatAmount } from "@/utils/amount";
+import { SPL_TOKENS, findKnownToken } from "./tokens";
+
+const MAX_SIGNATURES = 25;
+
+interface ParsedTransferInfo {
+  source?: string;
+  destination?: string;
+}
+
+// Finds the other side of a SOL transfer from the parsed system instructions.
+const findSOLCounterparty = (
+  transaction: ParsedTransactionWithMeta,
+  owner: string
+): string | undefined => {
+  const instructions = [
+    ...transaction.transaction.message.instructions,
+    ...(transaction.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+
+  for (const instruction of instructions) {
+    if (!("parsed" in instruction) || instruction.program !== "system") continue;
+    const info = instruction.parsed?.info as ParsedTransferInfo | undefined;
+    if (info?.source === owner && info.destination) return info.destination;
+    if (info?.destination === owner && info.source) return info.source;
+  }
+  return undefined;
+};
+
+const tokenAmounts = (balances: TokenBalance[] | null | undefined, owner: string) => {
+  const amounts = new Map<string, { amount: bigint; decimals: number }>();
+  (balances ?? [])
+    .filter((balance) => balance.owner === owner)
+    .forEach(({ mint, uiTokenAmount }) => {
+      const existing = amounts.get(mint)?.amount ?? 0n;
+      amounts.set(mint, {
+        amount: existing + BigInt(uiTokenAmount.amount),
+        decimals: uiTokenAmount.decimals,
+      });
+    });
+  return amounts;
+};
+
+// The counterparty of a token transfer is whichever other owner moved the opposite way.
+const findTokenCounterparty = (
+  transaction: ParsedTransactionWithMeta,
+  owner: string,
+  mint: string,
+  delta: bigint
+): string | undefined => {
+  const owners = new Set(
+    [...(transaction.meta?.preTokenBalances ?? []), ...(transaction.meta?.postTokenBalances ?? [])]
+      .filter((balance) => balance.mint === mint && balance.owner && balance.owner !== owner)
+      .map((balance) => balance.owner!)
+  );
+
+  for (const candidate of owners) {
+    const before = tokenAmounts(transaction.meta?.preTokenBalances, candidate).get(mint);
+    const after = tokenAmounts(transaction.meta?.postTokenBalances, candidate).get(mint);
+    const change = (after?.amount ?? 0n) - (before?.amount ?? 0n);
+    if (change !== 0n && change > 0n !== delta > 0n) return candidate;
+  }
+  return undefined;
+};
+
+const toActivities = (
+  transaction: ParsedTransactionWithMeta,
+  signature: string,
+  network: NetworkConfig,
+  owner: string
+): Activity[] => {
+  const { meta } = transaction;
+  if (!meta) return [];
+
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) =>
+    key.pubkey.toString()
+  );
+  const ownerIndex = accountKeys.indexOf(owner);
+  const isFeePayer = ownerIndex === 0;
+  const status = meta.err ? "failed" : "success";
+  const timestamp = (transaction.blockTime ?? 0) * 1000;
+  const { decimals: nativeDecimals, symbol: nativeSymbol } = network.nativeCurrency;
+  const fee = isFeePayer ? formatAmount(meta.fee, nativeDecimals) : undefined;
+  const activities: Activity[] = [];
+
+  if (ownerIndex !== -1) {
+    // Leave the fee out so only the transferred amount remains.
+    const lamports =
+      meta.postBalances[ownerIndex] - meta.preBalances[ownerIndex] + (isFeePayer ? meta.fee : 0);
+    if (lamports !== 0) {
+      activities.push({
+        id: `svm:${network.id}:${signature}:native`,
+        chain: "svm",
+        network: network.id,
+        hash: signature,
+        direction: lamports > 0 ? "in" : "out",
+        counterparty: findSOLCounterparty(transaction, owner),
+        amount: formatAmount(Math.abs(lamports), nativeDecimals),
+        token: { symbol: nativeSymbol, address: "native", decimals: nativeDecimals },
+        fee,
+        status,
+        timestamp,
+      });
+    }
+  }
+
+  const before = tokenAmounts(meta.preTokenBalances, owner);
+  const after = tokenAmounts(meta.postTokenBalances, owner);
+  new Set([...before.keys(), ...after.keys()]).forEach((mint) => {
+    const delta = (after.get(mint)?.amount ?? 0n) - (before.get(mint)?.amount ?? 0n);
+    if (delta === 0n) return;
+
+    const decimals = after.get(mint)?.decimals ?? before.get(mint)!.decimals;
+    const known = findKnownToken(SPL_TOKENS, network.profile, mint);
+    activities.push({
+      id: `svm:${network.id}:${signature}:${mint}`,
+      chain: "svm",
+      network: network.id,
+      hash: signature,
+      direction: delta > 0n ? "in" : "out",
+      counterparty: findTokenCounterparty(transaction, owner, mint, delta),
+      amount: formatAmount(delta < 0n ? -delta : delta, decimals),
+      token: { symbol: known?.symbol ?? `${mint.slice(0, 4)}…`, address: mint, decimals },
+      fee,
+      status,
+      timestamp,
+    });
+  });
+
+  // The fee is paid once per transaction, however many assets it moved.
+  return activities.map((activity, index) => (index === 0 ? activity : { ...activity, fee: undefined }));
+};
+
+/** Loads the recent SOL and SPL token movements of `owner`. */
+export const fetchSVMActivity = async (
+  connection: Connection,
+  network: NetworkConfig,
+  owner: string
+): Promise<Activity[]> => {
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(owner), {
+    limit: MAX_SIGNATURES,
+  });
+  if (!signatures.length) return [];
+
+  const transactions = await connection.getParsedTransactions(
+    signatures.map(({ signature }) => signature),
+    { maxSupportedTransactionVersion: 0 }
+  );
+
+  return transactions
+    .flatMap((transaction, index) =>
+      transaction ? toActivities(transaction, signatures[index].signature, network, owner) : []
+    )
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,248 @@
+import { NetworkProfile } from "@/types/network";
+
+export interface KnownToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+}
+
+export const SPL_TOKENS: Partial<Record<NetworkProfile, KnownToken[]>> = {
+  mainnet: [
+    {
+      address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+    {
+      address: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+      symbol: "USDT",
+      name: "Tether USD",
+      decimals: 6,
+    },
+    {
+      address: "So11111111111111111111111111111111111111112",
+      symbol: "wSOL",
+      name: "Wrapped SOL",
+      decimals: 9,
+    },
+  ],
+  devnet: [
+    {
+      address: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+      symbol: "USDC",
+      name: "USD Coin (Devnet)",
+      decimals: 6,
+    },
+    {
+      address: "So11111111111111111111111111111111111111112",
+      symbol: "wSOL",
+      name: "Wrapped SOL",
+      decimals: 9,
+    },
+  ],
+};
+
+// Well-known ERC-20 contracts, keyed by EVM chain id.
+export const EVM_TOKENS: Record<number, KnownToken[]> = {
+  // Ethereum
+  1: [
+    {
+      address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+    {
+      address: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+      symbol: "USDT",
+      name: "Tether USD",
+      decimals: 6,
+    },
+  ],
+  // OP Mainnet
+  10: [
+    {
+      address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+    {
+      address: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58",
+      symbol: "USDT",
+      name: "Tether USD",
+      decimals: 6,
+    },
+  ],
+  // Polygon
+  137: [
+    {
+      address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+    {
+      address: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+      symbol: "USDT",
+      name: "Tether USD",
+      decimals: 6,
+    },
+  ],
+  // Base
+  8453: [
+    {
+      address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+  ],
+  // Arbitrum One
+  42161: [
+    {
+      address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+    {
+      address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+      symbol: "USDT",
+      name: "Tether USD",
+      decimals: 6,
+    },
+  ],
+  // Polygon Amoy
+  80002: [
+    {
+      address: "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+  ],
+  // Base Sepolia
+  84532: [
+    {
+      address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+  ],
+  // Arbitrum Sepolia
+  421614: [
+    {
+      address: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+  ],
+  // Ethereum Sepolia
+  11155111: [
+    {
+      address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+  ],
+  // OP Sepolia
+  11155420: [
+    {
+      address: "0x5fd84259d66Cd46123540766Be93DFE6D43130D7",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+  ],
+  // Celo Mainnet
+  42220: [
+    {
+      address: "0x765DE816845861e75A25fCA122bb6898B8B1282a",
+      symbol: "cUSD",
+      name: "Celo Dollar",
+      decimals: 18,
+    },
+    {
+      address: "0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73",
+      symbol: "cEUR",
+      name: "Celo Euro",
+      decimals: 18,
+    },
+    {
+      address: "0xcebA9300f2b948710d2653dD7B07f33A8B32118C",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+    {
+      address: "0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e",
+      symbol: "USDT",
+      name: "Tether USD",
+      decimals: 6,
+    },
+  ],
+  // Celo Alfajores
+  44787: [
+    {
+      address: "0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1",
+      symbol: "cUSD",
+      name: "Celo Dollar",
+      decimals: 18,
+    },
+    {
+      address: "0x10c892A6EC43a53E45D0B916B4b7D383B1b78C0F",
+      symbol: "cEUR",
+      name: "Celo Euro",
+      decimals: 18,
+    },
+    {
+      address: "0x2F25deB3848C207fc8E0c34035B3Ba7fC157602B",
+      symbol: "USDC",
+      name: "USD Coin",
+      decimals: 6,
+    },
+  ],
+};
+
+// Fungible Asset metadata objects to check for primary store balances.
+export const APTOS_FA_TOKENS: Partial<Record<NetworkProfile, KnownToken[]>> = {
+  mainnet: [
+    {
+      address: "0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b",
+      symbol: "USDC",
+      name: "USDC",
+      decimals: 6,
+    },
+    {
+      address: "0x357b0b74bc833e95a115ad22604854d6b0fca151cecd94111770e5d6ffc9dc2b",
+      symbol: "USDt",
+      name: "Tether USD",
+      decimals: 6,
+    },
+  ],
+  testnet: [
+    {
+      address: "0x69091fbab5f7d635ee7ac5098cf0c1efbe31d68fec0f2cd565e8d168daf52832",
+      symbol: "USDC",
+      name: "USDC",
+      decimals: 6,
+    },
+  ],
+};
+
+// Addresses are compared exactly: base58 mints are case-sensitive, so hex addresses
+// have to be normalized the way the list spells them before the lookup.
+export const findKnownToken = (
+  list: Partial<Record<NetworkProfile, KnownToken[]>>,
+  profile: NetworkProfile,
+  address: string
+): KnownToken | undefined => {
+  return list[profile]?.find((token) => token.address === address);
+};
@@ -0,0 +1,69 @@
+import { StandardWallet, StandardWalletAppApi } from "@/types/providers";
+import { WalletStore } from "./walletStore";
+
+type WalletListener = (wallet: StandardWallet) => void;
+
+const wallets = new Set<StandardWallet>();
+const listeners = new Set<WalletListener>();
+// Removes each wallet from the stores it was added to, for when it unregisters.
+const storeCleanups = new Map<StandardWallet, (() => void)[]>();
+let started = false;
+
+const register: StandardWalletAppApi["register"] = (...registered) => {
+  registered.forEach((wallet) => {
+    if (wallets.has(wallet)) return;
+    wallets.add(wallet);
+    listeners.forEach((listener) => listener(wallet));
+  });
+
+  return () =>
+    registered.forEach((wallet) => {
+      wallets.delete(wallet);
+      storeCleanups.get(wallet)?.forEach((cleanup) => cleanup());
+      storeCleanups.delete(wallet);
+    });
+};
+
+const start = () => {
+  if (started || typeof window === "undefined") return;
+  started = true;
+
+  // Wallets loaded after us register through this event...
+  window.addEventListener("wallet-standard:register-wallet", (event) => event.detail({ register }));
+  // ...and wallets loaded before us are waiting for this one.
+  window.dispatchEvent(
+    new CustomEvent<StandardWalletAppApi>("wallet-standard:app-ready", { detail: { register } })
+  );
+};
+
+/**
+ * Calls `listener` for every Wallet Standard wallet, both the ones already
+ * registered and the ones registering later. Used by the Solana and Aptos adapters.
+ */
+export const onStandardWallet = (listener: WalletListener): (() => void) => {
+  start();
+  wallets.forEach(listener);
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const hasFeatures = (wallet: StandardWallet, features: string[]): boolean => {
+  return features.every((feature) => feature in wallet.features);
+};
+
+/** Adds a Wallet Standard wallet to a chain's wallet store until the wallet unregisters. */
+export const registerStandardWallet = <T>(
+  store: WalletStore<T>,
+  wallet: StandardWallet,
+  provider: T
+): void => {
+  // Wallet names are the only identifier that survives a page reload.
+  store.register({ id: wallet.name, name: wallet.name, icon: wallet.icon, provider });
+  storeCleanups.set(wallet, [
+    ...(storeCleanups.get(wallet) ?? []),
+    () => store.unregister(wallet.name),
+  ]);
+};
@@ -0,0 +1,106 @@
+import { WalletDiscovery, WalletOption } from "@/types/wallet";
+
+export interface DiscoveredWallet<T> extends WalletOption {
+  provider: T;
+}
+
+export interface WalletStore<T> extends WalletDiscovery {
+  // Adds a wallet that announced itself, replacing any legacy injection.
+  register: (wallet: DiscoveredWallet<T>) => void;
+  // Adds a legacy injection such as `window.ethereum`, unless a wallet announced itself.
+  registerLegacy: (name: string, provider: T) => void;
+  unregister: (walletId: string) => void;
+  getProvider: () => T | undefined;
+  // Binds to the selected wallet's provider and rebinds whenever the selection changes.
+  // `bind` returns its own cleanup and receives undefined while no wallet is available.
+  watchProvider: (bind: (provider: T | undefined) => () => void) => () => void;
+}
+
+// Id used for a legacy injection that does not announce itself.
+const LEGACY_WALLET_ID = "injected";
+
+/**
+ * Keeps the wallets discovered for one chain and remembers which of them the
+ * user picked. Falls back to the first discovered wallet until a choice is made.
+ */
+export const createWalletStore = <T>(storageKey: string): WalletStore<T> => {
+  const wallets = new Map<string, DiscoveredWallet<T>>();
+  const listeners = new Set<() => void>();
+  // Cached so React can compare snapshots by reference.
+  let options: WalletOption[] = [];
+
+  let selectedId: string | null = null;
+  try {
+    selectedId = localStorage.getItem(storageKey);
+  } catch (error) {
+    console.warn("Failed to load wallet selection:", error);
+  }
+
+  const notify = () => {
+    options = Array.from(wallets.values()).map(({ id, name, icon }) => ({ id, name, icon }));
+    listeners.forEach((listener) => listener());
+  };
+
+  const getSelected = (): DiscoveredWallet<T> | undefined =>
+    (selectedId ? wallets.get(selectedId) : undefined) ?? wallets.values().next().value;
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    register: (wallet) => {
+      wallets.delete(LEGACY_WALLET_ID);
+      wallets.set(wallet.id, wallet);
+      notify();
+    },
+    registerLegacy: (name, provider) => {
+      if (wallets.size) return;
+      wallets.set(LEGACY_WALLET_ID, { id: LEGACY_WALLET_ID, name, provider });
+      notify();
+    },
+    unregister: (walletId) => {
+      if (wallets.delete(walletId)) notify();
+    },
+    getProvider: () => getSelected()?.provider,
+    watchProvider: (bind) => {
+      let provider = getSelected()?.provider;
+      let unbind = bind(provider);
+
+      const unwatch = subscribe(() => {
+        const next = getSelected()?.provider;
+        if (next === provider) return;
+
+        unbind();
+        provider = next;
+        unbind = bind(provider);
+      });
+
+      return () => {
+        unwatch();
+        unbind();
+      };
+    },
+    getWallets: () => options,
+    getSelectedWallet: () => {
+      const selected = getSelected();
+      return options.find((option) => option.id === selected?.id);
+    },
+    selectWallet: (walletId) => {
+      if (!wallets.has(walletId)) throw new Error(`Unknown wallet "${walletId}"`);
+      if (walletId === selectedId) return;
+
+      selectedId = walletId;
+      try {
+        localStorage.setItem(storageKey, walletId);
+      } catch (error) {
+        console.warn("Failed to persist wallet selection:", error);
+      }
+      listeners.forEach((listener) => listener());
+    },
+    subscribe,
+  };
+};
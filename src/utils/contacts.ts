@@ -0,0 +1,166 @@
+import { Contact, ContactsExport, ContactsImportResult } from "@/types/contact";
+import { getChainAdapter } from "@/utils/chains";
+
+const STORAGE_KEY = "multi-wallet:contacts";
+const EXPORT_VERSION = 1;
+
+type ContactsListener = () => void;
+
+const listeners = new Set<ContactsListener>();
+
+const loadContacts = (): Contact[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn("Failed to load contacts:", error);
+    return [];
+  }
+};
+
+const saveContacts = (list: Contact[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  } catch (error) {
+    console.warn("Failed to persist contacts:", error);
+  }
+};
+
+let contacts = loadContacts();
+
+const setContacts = (next: Contact[]) => {
+  contacts = [...next].sort((a, b) => a.label.localeCompare(b.label));
+  saveContacts(contacts);
+  listeners.forEach((listener) => listener());
+};
+
+// Stores addresses in the form validation produces, so lookups match however they were typed.
+const canonicalAddress = (chain: string, address: string): string | null => {
+  const validation = getChainAdapter(chain)?.validateAddress(address);
+  return validation?.valid ? validation.address ?? address.trim() : null;
+};
+
+const sameLabel = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const findByLabel = (list: Contact[], label: string) =>
+  list.find((contact) => sameLabel(contact.label, label));
+
+// Chains for which the contact already holds a different address than `addresses`.
+const getConflicts = (contact: Contact | undefined, addresses: Record<string, string>): string[] =>
+  Object.keys(addresses).filter(
+    (chain) => contact?.addresses[chain] && contact.addresses[chain] !== addresses[chain]
+  );
+
+// Callers resolve conflicts first; addresses already on the contact are never replaced here.
+const mergeAddresses = (
+  list: Contact[],
+  label: string,
+  addresses: Record<string, string>
+): Contact[] => {
+  const now = Date.now();
+  const existing = findByLabel(list, label);
+  if (!existing) {
+    return [
+      ...list,
+      { id: crypto.randomUUID(), label: label.trim(), addresses, createdAt: now, updatedAt: now },
+    ];
+  }
+
+  return list.map((contact) =>
+    contact === existing
+      ? { ...contact, addresses: { ...addresses, ...contact.addresses }, updatedAt: now }
+      : contact
+  );
+};
+
+export const getContacts = (): Contact[] => contacts;
+
+export const getContactsForChain = (list: Contact[], chain: string): Contact[] =>
+  list.filter((contact) => contact.addresses[chain]);
+
+export const findContact = (
+  chain: string,
+  address: string,
+  list: Contact[] = contacts
+): Contact | undefined => {
+  const canonical = canonicalAddress(chain, address);
+  return canonical ? list.find((contact) => contact.addresses[chain] === canonical) : undefined;
+};
+
+/**
+ * Adds an address to the contact with this label, creating the contact if needed.
+ * Throws rather than replace an address the contact already has on this chain.
+ */
+export const saveContact = (label: string, chain: string, address: string): void => {
+  if (!label.trim()) throw new Error("Enter a label for the contact.");
+
+  const canonical = canonicalAddress(chain, address);
+  if (!canonical) throw new Error("Invalid address for this chain.");
+
+  const addresses = { [chain]: canonical };
+  if (getConflicts(findByLabel(contacts, label), addresses).length) {
+    const chainName = getChainAdapter(chain)?.displayName ?? chain;
+    throw new Error(
+      `${label.trim()} already has a different ${chainName} address. Use another label or remove the contact first.`
+    );
+  }
+
+  setContacts(mergeAddresses(contacts, label, addresses));
+};
+
+export const removeContact = (id: string): void => {
+  setContacts(contacts.filter((contact) => contact.id !== id));
+};
+
+export const subscribeToContacts = (listener: ContactsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const exportContacts = (): string => {
+  const data: ContactsExport = {
+    version: EXPORT_VERSION,
+    contacts: contacts.map(({ label, addresses }) => ({ label, addresses })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Merges contacts from an exported JSON file into the address book, matching by label.
+ * Addresses for unknown chains or that fail validation are skipped, as are addresses
+ * that differ from the one a contact already has on that chain.
+ */
+export const importContacts = (json: string): ContactsImportResult => {
+  let data: Partial<ContactsExport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!Array.isArray(data?.contacts)) throw new Error("The file is not a contacts export.");
+
+  let next = contacts;
+  let imported = 0;
+  let conflicts = 0;
+  data.contacts.forEach((entry) => {
+    if (typeof entry?.label !== "string" || !entry.label.trim() || !entry.addresses) return;
+
+    const addresses = Object.fromEntries(
+      Object.entries(entry.addresses)
+        .map(([chain, address]) => [chain, canonicalAddress(chain, String(address))])
+        .filter((pair): pair is [string, string] => pair[1] !== null)
+    );
+    const conflicting = getConflicts(findByLabel(next, entry.label), addresses);
+    conflicting.forEach((chain) => delete addresses[chain]);
+    conflicts += conflicting.length;
+    if (!Object.keys(addresses).length) return;
+
+    next = mergeAddresses(next, entry.label, addresses);
+    imported++;
+  });
+
+  setContacts(next);
+  return { imported, conflicts };
+};
@@ -0,0 +1,141 @@
+import { TrackedTransaction, TransactionStatus } from "@/types/transaction";
+import { getChainAdapter } from "@/utils/chains";
+
+const STORAGE_KEY = "multi-wallet:pending-transactions";
+const POLL_INTERVAL_MS = 4_000;
+// A transaction still unknown to the chain after this long was probably dropped or replaced.
+const DROP_AFTER_MS = 10 * 60_000;
+const DROPPED_MESSAGE =
+  "Not seen on chain for 10 minutes. It may still confirm, or may have been dropped or replaced.";
+// Settled transactions stay listed for a while so the user can see how they ended.
+const KEEP_SETTLED_MS = 24 * 60 * 60_000;
+const MAX_TRACKED = 50;
+
+type TransactionListener = () => void;
+export type SettledListener = (transaction: TrackedTransaction) => void;
+
+const listeners = new Set<TransactionListener>();
+
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const list: TrackedTransaction[] = stored ? JSON.parse(stored) : [];
+    return list.filter(
+      (transaction) =>
+        !isDismissable(transaction) || Date.now() - transaction.updatedAt < KEEP_SETTLED_MS
+    );
+  } catch (error) {
+    console.warn("Failed to load pending transactions:", error);
+    return [];
+  }
+};
+
+const saveTransactions = (list: TrackedTransaction[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  } catch (error) {
+    console.warn("Failed to persist pending transactions:", error);
+  }
+};
+
+export const isSettled = ({ status }: TrackedTransaction): boolean =>
+  status === "finalized" || status === "failed";
+
+// Dropped transactions are still watched, but the user may give up on them.
+export const isDismissable = (transaction: TrackedTransaction): boolean =>
+  isSettled(transaction) || transaction.status === "dropped";
+
+let transactions = loadTransactions();
+
+const setTransactions = (next: TrackedTransaction[]) => {
+  transactions = next;
+  saveTransactions(transactions);
+  listeners.forEach((listener) => listener());
+};
+
+export const getTrackedTransactions = (): TrackedTransaction[] => transactions;
+
+export const trackTransaction = (
+  transaction: Pick<TrackedTransaction, "hash" | "chain" | "network" | "summary">
+): void => {
+  const now = Date.now();
+  setTransactions(
+    [
+      { ...transaction, status: "submitted" as TransactionStatus, submittedAt: now, updatedAt: now },
+      ...transactions.filter((entry) => entry.hash !== transaction.hash),
+    ].slice(0, MAX_TRACKED)
+  );
+};
+
+export const dismissTransaction = (hash: string): void => {
+  setTransactions(transactions.filter((transaction) => transaction.hash !== hash));
+};
+
+export const subscribeToTransactions = (listener: TransactionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const checkTransaction = async (
+  transaction: TrackedTransaction
+): Promise<Partial<TrackedTransaction> | null> => {
+  const adapter = getChainAdapter(transaction.chain);
+  if (!adapter) return null;
+
+  try {
+    const status = await adapter.getTransactionStatus(transaction.hash, transaction.network);
+    if (status === "submitted" && Date.now() - transaction.submittedAt > DROP_AFTER_MS) {
+      return transaction.status === "dropped" ? null : { status: "dropped", error: DROPPED_MESSAGE };
+    }
+    return status === transaction.status ? null : { status, error: undefined };
+  } catch (error) {
+    // RPC hiccups are retried on the next poll.
+    console.warn(`Could not check transaction ${transaction.hash}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Polls the chain for every unsettled transaction until it is finalized or
+ * failed. Tracking picks up where it left off after a reload, since the list
+ * is persisted. Returns a function that stops watching.
+ */
+export const watchTransactions = (onSettled?: SettledListener): (() => void) => {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    const pending = transactions.filter((transaction) => !isSettled(transaction));
+    const updates = await Promise.all(pending.map(checkTransaction));
+    if (stopped) return;
+
+    const changed = new Map<string, Partial<TrackedTransaction>>();
+    updates.forEach((update, index) => {
+      if (update) changed.set(pending[index].hash, update);
+    });
+
+    if (changed.size) {
+      const now = Date.now();
+      setTransactions(
+        transactions.map((transaction) => {
+          const update = changed.get(transaction.hash);
+          return update ? { ...transaction, ...update, updatedAt: now } : transaction;
+        })
+      );
+      transactions
+        .filter((transaction) => changed.has(transaction.hash) && isSettled(transaction))
+        .forEach((transaction) => onSettled?.(transaction));
+    }
+
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+  };
+
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
@@ -0,0 +1,114 @@
+import BigNumber from "bignumber.js";
+import { PortfolioPoint, PortfolioSnapshot, TokenSnapshot } from "@/types/portfolio";
+import { Token } from "@/types/wallet";
+
+const STORAGE_KEY = "multi-wallet:portfolio-snapshots";
+// Oldest snapshots are dropped past this, to stay well inside the localStorage quota.
+const MAX_SNAPSHOTS = 2_000;
+// Refreshes closer together than this overwrite each other instead of piling up.
+const MIN_INTERVAL_MS = 60_000;
+
+type HistoryListener = () => void;
+
+const listeners = new Set<HistoryListener>();
+
+const loadSnapshots = (): PortfolioSnapshot[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn("Failed to load portfolio history:", error);
+    return [];
+  }
+};
+
+const saveSnapshots = (list: PortfolioSnapshot[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  } catch (error) {
+    console.warn("Failed to persist portfolio history:", error);
+  }
+};
+
+let snapshots = loadSnapshots();
+
+export const getSnapshots = (): PortfolioSnapshot[] => snapshots;
+
+export const recordSnapshot = (chain: string, tokens: Token[], timestamp = Date.now()): void => {
+  const snapshot: PortfolioSnapshot = {
+    chain,
+    timestamp,
+    tokens: tokens.map(({ id, symbol, network, rawBalance, decimals, priceUSD }) => ({
+      id,
+      symbol,
+      network,
+      rawBalance,
+      decimals,
+      priceUSD,
+    })),
+  };
+
+  let previous = snapshots.length - 1;
+  while (previous >= 0 && snapshots[previous].chain !== chain) previous--;
+  const replacesPrevious =
+    previous !== -1 && timestamp - snapshots[previous].timestamp < MIN_INTERVAL_MS;
+
+  const next = replacesPrevious
+    ? snapshots.filter((_, index) => index !== previous)
+    : [...snapshots];
+  next.push(snapshot);
+
+  snapshots = next.slice(-MAX_SNAPSHOTS);
+  saveSnapshots(snapshots);
+  listeners.forEach((listener) => listener());
+};
+
+export const clearSnapshots = (): void => {
+  snapshots = [];
+  saveSnapshots(snapshots);
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToSnapshots = (listener: HistoryListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const tokenAmount = (token: TokenSnapshot): BigNumber =>
+  new BigNumber(token.rawBalance).shiftedBy(-token.decimals);
+
+const snapshotValue = (snapshot: PortfolioSnapshot): number =>
+  snapshot.tokens
+    .reduce((total, token) => {
+      const value = tokenAmount(token).multipliedBy(token.priceUSD);
+      return value.isFinite() ? total.plus(value) : total;
+    }, new BigNumber(0))
+    .toNumber();
+
+/**
+ * Turns per-chain snapshots into a value series. Each point carries every
+ * chain's most recent value at that moment, so chains refreshed at different
+ * times still add up to a portfolio total.
+ */
+export const buildPortfolioSeries = (
+  list: PortfolioSnapshot[],
+  since = 0
+): PortfolioPoint[] => {
+  const latest: Record<string, number> = {};
+  const points: PortfolioPoint[] = [];
+
+  [...list]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach((snapshot) => {
+      latest[snapshot.chain] = snapshotValue(snapshot);
+      if (snapshot.timestamp < since) return;
+
+      const chains = { ...latest };
+      const total = Object.values(chains).reduce((sum, value) => sum + value, 0);
+      points.push({ timestamp: snapshot.timestamp, total, chains });
+    });
+
+  return points;
+};
@@ -0,0 +1,83 @@
+import { Token } from "@/types/wallet";
+import { NetworkConfig } from "@/types/network";
+import { getNetwork, getProfileNetworks } from "@/utils/chains/networks";
+import { APTOS_FA_TOKENS, EVM_TOKENS, KnownToken, SPL_TOKENS } from "@/utils/chains/tokens";
+import { APT_METADATA, APTOS_COIN, normalizeAddress } from "@/utils/chains/aptosBalances";
+
+// Quoted asset for each curated token symbol that tracks it. Symbols outside this list,
+// even on curated contracts, are not priced.
+const PRICED_SYMBOLS: Record<string, string> = {
+  USDC: "USDC",
+  USDT: "USDT",
+  USDt: "USDT",
+  wSOL: "SOL",
+  cEUR: "EUR",
+};
+
+// Native currencies that track another asset's price.
+const NATIVE_ALIASES: Record<string, string> = {
+  MATIC: "POL",
+};
+
+const toPricedEntries = (tokens: KnownToken[] = [], normalize = (address: string) => address) =>
+  tokens
+    .filter((token) => PRICED_SYMBOLS[token.symbol])
+    .map((token): [string, string] => [normalize(token.address), PRICED_SYMBOLS[token.symbol]]);
+
+let pricedContracts: Map<string, Map<string, string>> | undefined;
+
+/**
+ * Contract, mint and coin type allow-list of every mainnet token that is priced, keyed by
+ * `chain:network` and then by address. Built lazily from the curated token lists.
+ */
+const getPricedContracts = (): Map<string, Map<string, string>> => {
+  if (pricedContracts) return pricedContracts;
+
+  pricedContracts = new Map();
+  const add = (chain: string, network: NetworkConfig, entries: [string, string][]) => {
+    pricedContracts.set(`${chain}:${network.id}`, new Map(entries));
+  };
+
+  getProfileNetworks("evm", "mainnet").forEach((network) => {
+    add("evm", network, toPricedEntries(EVM_TOKENS[network.chainId], (address) => address.toLowerCase()));
+  });
+  getProfileNetworks("svm", "mainnet").forEach((network) => {
+    add("svm", network, toPricedEntries(SPL_TOKENS.mainnet));
+  });
+  getProfileNetworks("mvm", "mainnet").forEach((network) => {
+    add("mvm", network, [
+      [APTOS_COIN, "APT"],
+      [normalizeAddress(APT_METADATA), "APT"],
+      ...toPricedEntries(APTOS_FA_TOKENS.mainnet, normalizeAddress),
+    ]);
+  });
+  return pricedContracts;
+};
+
+const normalizeTokenAddress = (token: Token): string => {
+  if (token.chain === "evm") return token.address.toLowerCase();
+  if (token.chain === "mvm" && !token.address.includes("::")) return normalizeAddress(token.address);
+  return token.address;
+};
+
+/**
+ * Returns the asset whose price `token` tracks, or undefined when it should not be priced.
+ * Tokens are identified by chain, network and contract address rather than their symbol,
+ * which anyone can copy, and only mainnet balances are priced.
+ */
+export const getPricedAsset = (token: Token): string | undefined => {
+  let network: NetworkConfig;
+  try {
+    network = getNetwork(token.chain, token.network);
+  } catch {
+    return undefined;
+  }
+  if (network.profile !== "mainnet") return undefined;
+
+  if (token.address === "native") {
+    const symbol = network.nativeCurrency.symbol;
+    return NATIVE_ALIASES[symbol] ?? symbol;
+  }
+
+  return getPricedContracts().get(`${token.chain}:${network.id}`)?.get(normalizeTokenAddress(token));
+};
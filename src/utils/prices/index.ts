@@ -0,0 +1,80 @@
+import BigNumber from "bignumber.js";
+import { PriceProvider, PriceQuote } from "@/types/price";
+import { Token } from "@/types/wallet";
+import { oraclePriceProvider } from "./oracle";
+import { getPricedAsset } from "./assets";
+
+export { oraclePriceProvider } from "./oracle";
+export { createStaticPriceProvider } from "./static";
+export { getPricedAsset } from "./assets";
+
+// How long a fetched quote is reused before asking the provider again.
+const CACHE_TTL_MS = 60_000;
+// Quotes the source published longer ago than this are flagged as stale.
+export const PRICE_STALE_AFTER_MS = 24 * 60 * 60_000;
+
+interface CacheEntry {
+  // Shared while in flight, so a refresh asks only once per asset.
+  quote: Promise<PriceQuote | undefined>;
+  fetchedAt: number;
+}
+
+let provider: PriceProvider = oraclePriceProvider;
+const cache = new Map<string, CacheEntry>();
+
+export const getPriceProvider = (): PriceProvider => provider;
+
+export const setPriceProvider = (next: PriceProvider): void => {
+  provider = next;
+  cache.clear();
+};
+
+const getQuote = (asset: string, chain: string): Promise<PriceQuote | undefined> => {
+  const key = `${provider.id}:${chain}:${asset}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.quote;
+
+  const quote = provider.getPrice(asset, chain).catch((error) => {
+    console.warn(`Price lookup for ${asset} failed:`, error);
+    // Keep serving the last known price rather than dropping the value.
+    return cached?.quote;
+  });
+  cache.set(key, { quote, fetchedAt: Date.now() });
+  return quote;
+};
+
+/**
+ * Returns the tokens with `priceUSD` and `priceUpdatedAt` filled in where a price is known.
+ * Only allow-listed mainnet tokens are priced, see `getPricedAsset`.
+ */
+export const withPrices = async (tokens: Token[]): Promise<Token[]> => {
+  return Promise.all(
+    tokens.map(async (token) => {
+      const asset = getPricedAsset(token);
+      if (!asset) return token;
+
+      const quote = await getQuote(asset, token.chain);
+      if (!quote) return token;
+      return { ...token, priceUSD: quote.priceUSD, priceUpdatedAt: quote.publishedAt };
+    })
+  );
+};
+
+export const isPriceStale = (token: Token, now = Date.now()): boolean => {
+  return token.priceUpdatedAt !== undefined && now - token.priceUpdatedAt > PRICE_STALE_AFTER_MS;
+};
+
+export const getTokenValue = (token: Token): BigNumber => {
+  const value = new BigNumber(token.rawBalance)
+    .shiftedBy(-token.decimals)
+    .multipliedBy(token.priceUSD);
+  return value.isFinite() ? value : new BigNumber(0);
+};
+
+export const getPortfolioValue = (tokens: Token[]): BigNumber => {
+  return tokens.reduce((total, token) => total.plus(getTokenValue(token)), new BigNumber(0));
+};
+
+const usdFormatter = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" });
+
+export const formatUSD = (value: BigNumber): string => usdFormatter.format(value.toNumber());
@@ -0,0 +1,158 @@
+import { ethers } from "ethers";
+import { PublicKey } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+import { Buffer } from "buffer";
+import { PriceProvider, PriceQuote } from "@/types/price";
+import { getProfileNetworks } from "@/utils/chains/networks";
+import { getRpcProvider } from "@/utils/chains/evm";
+import { getConnection } from "@/utils/chains/svm";
+import { getClient } from "@/utils/chains/mvm";
+
+// Oracles are always read on mainnet; testnet feeds are neither complete nor meaningful,
+// which is why only mainnet tokens are priced at all.
+const getMainnet = (chain: string) => getProfileNetworks(chain, "mainnet")[0];
+
+// Chainlink USD feeds on Ethereum mainnet.
+const CHAINLINK_FEEDS: Record<string, string> = {
+  ETH: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
+  SOL: "0x4ffC43a60e009B551865A93d232E33Fce9f01507",
+  POL: "0x7bAC85A8a13A4BcD8abb3eB7d6b4d632c5a57676",
+  USDC: "0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6",
+  USDT: "0x3E7d1eAB13ad0104d2750B8863b489D65364e32D",
+  EUR: "0xb49f677943BC038e9857d61E7d053CaA2C1734C1",
+};
+
+const AGGREGATOR_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+// Pyth price feed ids, shared by every chain Pyth publishes to.
+const PYTH_FEEDS: Record<string, string> = {
+  SOL: "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d",
+  APT: "0x03ae4db29ed4ae33d323568895aa00337e658e348b37509f5372ae51f0af00d5",
+  ETH: "0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace",
+  USDC: "0xeaa020c61cc479712813461ce153894a96a6c00b21ed0cfc2798d1f9a9e9c94a",
+  USDT: "0x2b89b9dc8fdf9f34709a5b106b472f0f39bb6ca9ce04b0fd7f2e971688e2e53b",
+};
+
+// Pyth push oracle on Solana; sponsored feeds live in shard 0.
+const PYTH_PUSH_ORACLE = new PublicKey("pythWSnswVUd12oZpeFP8e9CVaEqJg25g1Vtc2biRsT");
+const PYTH_SHARD = 0;
+
+const PYTH_APTOS = "0x7e783b349d3e89cf5931af376ebeadbfab855b3fa239b7ada8f5a92fbea6b387";
+
+const fromHex = (hex: string) => Uint8Array.from(Buffer.from(hex.replace(/^0x/, ""), "hex"));
+
+const readChainlink = async (asset: string): Promise<PriceQuote | undefined> => {
+  const feed = CHAINLINK_FEEDS[asset];
+  const network = getMainnet("evm");
+  if (!feed || !network) return undefined;
+
+  const aggregator = new ethers.Contract(feed, AGGREGATOR_ABI, getRpcProvider(network));
+  const [decimals, round] = await Promise.all([
+    aggregator.decimals(),
+    aggregator.latestRoundData(),
+  ]);
+
+  return {
+    priceUSD: ethers.formatUnits(round.answer, decimals),
+    publishedAt: Number(round.updatedAt) * 1000,
+    source: "Chainlink",
+  };
+};
+
+const readPythSolana = async (asset: string): Promise<PriceQuote | undefined> => {
+  const feedId = PYTH_FEEDS[asset];
+  const network = getMainnet("svm");
+  if (!feedId || !network) return undefined;
+
+  const shard = Buffer.alloc(2);
+  shard.writeUInt16LE(PYTH_SHARD);
+  const [address] = PublicKey.findProgramAddressSync(
+    [shard, fromHex(feedId)],
+    PYTH_PUSH_ORACLE
+  );
+
+  const account = await getConnection(network.id).getAccountInfo(address);
+  if (!account) return undefined;
+
+  // PriceUpdateV2: discriminator (8), write authority (32), verification level
+  // (1 byte tag, plus a signature count when partial), then the price message.
+  const data = Buffer.from(account.data);
+  let offset = 8 + 32;
+  offset += data.readUInt8(offset) === 0 ? 2 : 1;
+  offset += 32; // feed id
+
+  const price = data.readBigInt64LE(offset);
+  const exponent = data.readInt32LE(offset + 16);
+  const publishTime = data.readBigInt64LE(offset + 20);
+
+  return {
+    priceUSD: new BigNumber(price.toString()).shiftedBy(exponent).toFixed(),
+    publishedAt: Number(publishTime) * 1000,
+    source: "Pyth",
+  };
+};
+
+interface PythI64 {
+  negative: boolean;
+  magnitude: string;
+}
+
+interface PythPriceInfo {
+  price_feed: {
+    price: {
+      price: PythI64;
+      expo: PythI64;
+      timestamp: string;
+    };
+  };
+}
+
+const toNumber = ({ negative, magnitude }: PythI64) =>
+  negative ? -Number(magnitude) : Number(magnitude);
+
+const readPythAptos = async (asset: string): Promise<PriceQuote | undefined> => {
+  const feedId = PYTH_FEEDS[asset];
+  const network = getMainnet("mvm");
+  if (!feedId || !network) return undefined;
+
+  const client = getClient(network.id);
+  const resource = await client.getAccountResource(PYTH_APTOS, `${PYTH_APTOS}::state::LatestPriceInfo`);
+  const { handle } = (resource.data as { info: { handle: string } }).info;
+
+  const info = (await client.getTableItem(handle, {
+    key_type: `${PYTH_APTOS}::price_identifier::PriceIdentifier`,
+    value_type: `${PYTH_APTOS}::price_info::PriceInfo`,
+    key: { bytes: feedId },
+  })) as PythPriceInfo;
+  const { price } = info.price_feed;
+
+  return {
+    priceUSD: new BigNumber(toNumber(price.price)).shiftedBy(toNumber(price.expo)).toFixed(),
+    publishedAt: Number(price.timestamp) * 1000,
+    source: "Pyth",
+  };
+};
+
+/**
+ * Reads prices from on-chain oracles: Pyth for assets held on Solana and Aptos,
+ * Chainlink on Ethereum for everything else and whenever Pyth has no feed.
+ */
+export const oraclePriceProvider: PriceProvider = {
+  id: "oracle",
+  getPrice: async (asset, chain) => {
+    const readPyth = chain === "svm" ? readPythSolana : chain === "mvm" ? readPythAptos : undefined;
+    if (readPyth) {
+      try {
+        const quote = await readPyth(asset);
+        if (quote) return quote;
+      } catch (error) {
+        console.warn(`Pyth price lookup for ${asset} failed:`, error);
+      }
+    }
+
+    return readChainlink(asset);
+  },
+};
@@ -0,0 +1,10 @@
+import { PriceProvider } from "@/types/price";
+
+/** Serves fixed prices, for tests and offline development. */
+export const createStaticPriceProvider = (prices: Record<string, string>): PriceProvider => ({
+  id: "static",
+  getPrice: async (asset) => {
+    const priceUSD = prices[asset];
+    return priceUSD === undefined ? undefined : { priceUSD, publishedAt: Date.now(), source: "static" };
+  },
+});